@@ -0,0 +1,20 @@
+import { z } from "zod"
+import { handleProxyRequest, proxyRequestSchema, streamJsonLines } from "@/lib/api-proxy"
+import { samplingParametersSchema } from "@/lib/presets"
+
+const chatRequestSchema = proxyRequestSchema.extend({
+  model: z.string().min(1),
+  messages: z.array(z.object({ role: z.enum(["system", "user", "assistant"]), content: z.string() })),
+  parameters: samplingParametersSchema.optional(),
+  stream: z.boolean().default(false),
+})
+
+// Chat completion, either as one JSON reply or streamed as newline-delimited StreamChunks
+export function POST(request: Request) {
+  return handleProxyRequest(request, chatRequestSchema, async ({ endpoint, stream, ...body }, provider) => {
+    // Abort the upstream request when the browser disconnects or hits Stop
+    const chatRequest = { ...body, signal: request.signal }
+
+    return stream ? streamJsonLines(provider.stream(chatRequest)) : Response.json(await provider.chat(chatRequest))
+  })
+}
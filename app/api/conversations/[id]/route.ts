@@ -0,0 +1,32 @@
+import { conversationChangesSchema } from "@/lib/storage/schemas"
+import { deleteConversation, getConversation, saveConversationChanges } from "@/lib/storage/sqlite"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const conversation = getConversation((await params).id)
+  return conversation ? Response.json(conversation) : Response.json({ error: "Not found" }, { status: 404 })
+}
+
+// Create or update a conversation
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const parsed = conversationChangesSchema.safeParse(await request.json().catch(() => undefined))
+  if (!parsed.success) {
+    return Response.json({ error: `Invalid conversation: ${parsed.error.issues[0].message}` }, { status: 400 })
+  }
+  if (parsed.data.record.id !== id) {
+    return Response.json({ error: "Conversation id doesn't match the URL" }, { status: 400 })
+  }
+
+  saveConversationChanges(parsed.data)
+  return new Response(null, { status: 204 })
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  return deleteConversation((await params).id)
+    ? new Response(null, { status: 204 })
+    : Response.json({ error: "Not found" }, { status: 404 })
+}
@@ -0,0 +1,19 @@
+import { z } from "zod"
+import { conversationChangesSchema } from "@/lib/storage/schemas"
+import { applyConversationBatch } from "@/lib/storage/sqlite"
+
+const batchRequestSchema = z.object({
+  changes: z.array(conversationChangesSchema),
+  deletedIds: z.array(z.string()),
+})
+
+// Save and delete several conversations at once; nothing is written if any part fails
+export async function POST(request: Request) {
+  const parsed = batchRequestSchema.safeParse(await request.json().catch(() => undefined))
+  if (!parsed.success) {
+    return Response.json({ error: `Invalid changes: ${parsed.error.issues[0].message}` }, { status: 400 })
+  }
+
+  applyConversationBatch(parsed.data.changes, parsed.data.deletedIds)
+  return new Response(null, { status: 204 })
+}
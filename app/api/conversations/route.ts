@@ -0,0 +1,21 @@
+import { z } from "zod"
+import { conversationSchema } from "@/lib/storage/schemas"
+import { importConversations, listConversations } from "@/lib/storage/sqlite"
+
+const importRequestSchema = z.object({ conversations: z.array(conversationSchema) })
+
+// All conversations with their messages
+export function GET() {
+  return Response.json(listConversations())
+}
+
+// Upload whole conversations, e.g. when moving from browser storage to the server
+export async function POST(request: Request) {
+  const parsed = importRequestSchema.safeParse(await request.json().catch(() => undefined))
+  if (!parsed.success) {
+    return Response.json({ error: `Invalid conversations: ${parsed.error.issues[0].message}` }, { status: 400 })
+  }
+
+  const imported = importConversations(parsed.data.conversations)
+  return Response.json({ imported })
+}
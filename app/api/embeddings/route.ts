@@ -0,0 +1,14 @@
+import { z } from "zod"
+import { handleProxyRequest, proxyRequestSchema } from "@/lib/api-proxy"
+
+const embeddingsRequestSchema = proxyRequestSchema.extend({
+  model: z.string(),
+  input: z.array(z.string()),
+})
+
+// Embed a batch of texts
+export function POST(request: Request) {
+  return handleProxyRequest(request, embeddingsRequestSchema, async ({ model, input }, provider) =>
+    Response.json(await provider.embeddings(model, input)),
+  )
+}
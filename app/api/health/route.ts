@@ -0,0 +1,8 @@
+import { handleProxyRequest, proxyRequestSchema } from "@/lib/api-proxy"
+
+// Check whether an endpoint is reachable from this server
+export function POST(request: Request) {
+  return handleProxyRequest(request, proxyRequestSchema, async (_body, provider) =>
+    Response.json(await provider.health()),
+  )
+}
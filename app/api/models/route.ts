@@ -0,0 +1,8 @@
+import { handleProxyRequest, proxyRequestSchema } from "@/lib/api-proxy"
+
+// List the models of an endpoint
+export function POST(request: Request) {
+  return handleProxyRequest(request, proxyRequestSchema, async (_body, provider) =>
+    Response.json(await provider.listModels()),
+  )
+}
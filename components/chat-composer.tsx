@@ -0,0 +1,72 @@
+"use client"
+
+import type React from "react"
+
+import { Send, Square } from "lucide-react"
+
+interface ChatComposerProps {
+  value: string
+  onChange: (value: string) => void
+  // Called with Enter or the send button, only when there's something to send
+  onSubmit: () => void
+  // While a reply is being generated the send button becomes a stop button
+  isGenerating: boolean
+  onStop: () => void
+  disabled?: boolean
+  placeholder?: string
+  className?: string
+}
+
+// The message input with its send and stop buttons
+export function ChatComposer({
+  value,
+  onChange,
+  onSubmit,
+  isGenerating,
+  onStop,
+  disabled,
+  placeholder = "Type your message...",
+  className,
+}: ChatComposerProps) {
+  const canSubmit = !disabled && value.trim() !== ""
+
+  const handleSubmit = (e?: React.FormEvent) => {
+    e?.preventDefault()
+    if (canSubmit) onSubmit()
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault()
+      handleSubmit()
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className={`flex gap-2 ${className ?? ""}`}>
+      <input
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        disabled={disabled}
+        className="flex-1 min-w-0 p-3 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+      />
+      {isGenerating ? (
+        <button type="button" onClick={onStop} className="p-3 bg-red-600 hover:bg-red-700 text-white rounded-md">
+          <Square className="h-5 w-5" />
+          <span className="sr-only">Stop</span>
+        </button>
+      ) : (
+        <button
+          type="submit"
+          disabled={!canSubmit}
+          className="p-3 bg-blue-600 hover:bg-blue-700 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Send className="h-5 w-5" />
+          <span className="sr-only">Send</span>
+        </button>
+      )}
+    </form>
+  )
+}
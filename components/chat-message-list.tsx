@@ -0,0 +1,76 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef } from "react"
+import { Loader2 } from "lucide-react"
+import { MessageAvatar, MessageBubble } from "@/components/chat-message"
+import type { Message } from "@/lib/types"
+
+interface ChatMessageListProps {
+  // Scrolled to the bottom whenever this array changes
+  messages: Message[]
+  // Renders one message with its own key; defaults to just the avatar and the bubble
+  renderMessage?: (message: Message, index: number) => React.ReactNode
+  // Shown in place of a reply that hasn't started yet, e.g. "Thinking..."; nothing when null
+  pendingStatus?: string | null
+  // Shown while there are no messages
+  placeholder?: React.ReactNode
+  className?: string
+}
+
+function PlainMessage({ message }: { message: Message }) {
+  const isUser = message.role === "user"
+  return (
+    <div className={`flex ${isUser ? "justify-end" : "justify-start"}`}>
+      <div className={`flex items-start gap-2 max-w-[85%] ${isUser ? "flex-row-reverse" : "flex-row"}`}>
+        <MessageAvatar role={message.role} />
+        <div className="min-w-0">
+          <MessageBubble message={message} />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// A reply that has been requested but hasn't produced any text yet
+function PendingReply({ status }: { status: string }) {
+  return (
+    <div className="flex justify-start">
+      <div className="flex items-start gap-2 max-w-[85%]">
+        <MessageAvatar role="assistant" />
+        <div className="p-3 rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100 flex items-center">
+          <Loader2 className="h-4 w-4 animate-spin mr-2" />
+          {status}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+const renderPlainMessage = (message: Message, index: number) => <PlainMessage key={index} message={message} />
+
+// Scrollable list of chat messages that follows new ones as they arrive
+export function ChatMessageList({
+  messages,
+  renderMessage = renderPlainMessage,
+  pendingStatus = null,
+  placeholder,
+  className,
+}: ChatMessageListProps) {
+  const endRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: "smooth" })
+  }, [messages])
+
+  return (
+    <div className={`overflow-y-auto p-4 ${className ?? ""}`}>
+      <div className="max-w-3xl mx-auto space-y-4">
+        {messages.length === 0 ? placeholder : messages.map(renderMessage)}
+        {pendingStatus !== null && <PendingReply status={pendingStatus} />}
+        <div ref={endRef} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,242 @@
+"use client"
+
+import { useState } from "react"
+import {
+  AlertTriangle,
+  Bot,
+  Check,
+  ChevronLeft,
+  ChevronRight,
+  Copy,
+  Pencil,
+  RefreshCw,
+  Trash2,
+  User,
+} from "lucide-react"
+import ReactMarkdown from "react-markdown"
+import remarkGfm from "remark-gfm"
+import type { Message } from "@/lib/types"
+
+interface ChatMessageProps {
+  message: Message
+  nodeId: string
+  // Alternative versions of this message (including itself) from edits and regenerations
+  siblingIds: string[]
+  // Dimmed when the message no longer fits into the context window
+  isExcluded?: boolean
+  // Actions are disabled while a reply is being generated
+  disabled?: boolean
+  onEdit: (content: string) => void
+  onRegenerate: () => void
+  onDelete: () => void
+  onSelectSibling: (siblingId: string) => void
+}
+
+export function ChatMessage({
+  message,
+  nodeId,
+  siblingIds,
+  isExcluded,
+  disabled,
+  onEdit,
+  onRegenerate,
+  onDelete,
+  onSelectSibling,
+}: ChatMessageProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [editText, setEditText] = useState("")
+  const [isCopied, setIsCopied] = useState(false)
+
+  const isUser = message.role === "user"
+  const siblingIndex = siblingIds.indexOf(nodeId)
+
+  const copyToClipboard = async () => {
+    try {
+      await navigator.clipboard.writeText(message.content)
+      setIsCopied(true)
+      setTimeout(() => setIsCopied(false), 2000)
+    } catch (e) {
+      console.error("Failed to copy message", e)
+    }
+  }
+
+  const startEditing = () => {
+    setEditText(message.content)
+    setIsEditing(true)
+  }
+
+  const submitEdit = () => {
+    if (!editText.trim()) return
+    setIsEditing(false)
+    onEdit(editText)
+  }
+
+  const actionClassName =
+    "p-1 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400 disabled:opacity-50 disabled:cursor-not-allowed"
+
+  return (
+    <div
+      className={`group flex ${isUser ? "justify-end" : "justify-start"} ${isExcluded ? "opacity-50" : ""}`}
+      title={isExcluded ? "Not included in the prompt" : undefined}
+    >
+      <div className={`flex items-start gap-2 max-w-[85%] ${isUser ? "flex-row-reverse" : "flex-row"}`}>
+        <MessageAvatar role={message.role} />
+        <div className={`flex flex-col min-w-0 ${isUser ? "items-end" : "items-start"}`}>
+          {isEditing ? (
+            <div className="w-full min-w-[16rem] space-y-2">
+              <textarea
+                value={editText}
+                onChange={(e) => setEditText(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault()
+                    submitEdit()
+                  } else if (e.key === "Escape") {
+                    setIsEditing(false)
+                  }
+                }}
+                rows={Math.min(Math.max(editText.split("\n").length, 2), 10)}
+                autoFocus
+                className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+              />
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setIsEditing(false)}
+                  className="px-3 py-1 text-sm rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={submitEdit}
+                  disabled={disabled || !editText.trim()}
+                  className="px-3 py-1 text-sm rounded-md bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Save & Send
+                </button>
+              </div>
+            </div>
+          ) : (
+            <MessageBubble message={message} />
+          )}
+
+          {!isEditing && (
+            <div className="flex items-center gap-1 mt-1">
+              {/* Sibling switcher, e.g. "< 2/3 >" */}
+              {siblingIds.length > 1 && (
+                <div className="flex items-center text-xs text-gray-500 dark:text-gray-400 tabular-nums">
+                  <button
+                    onClick={() => onSelectSibling(siblingIds[siblingIndex - 1])}
+                    disabled={disabled || siblingIndex <= 0}
+                    className={actionClassName}
+                    aria-label="Previous version"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </button>
+                  <span>
+                    {siblingIndex + 1}/{siblingIds.length}
+                  </span>
+                  <button
+                    onClick={() => onSelectSibling(siblingIds[siblingIndex + 1])}
+                    disabled={disabled || siblingIndex >= siblingIds.length - 1}
+                    className={actionClassName}
+                    aria-label="Next version"
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+
+              {/* Hover actions */}
+              <div className="flex gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                <button onClick={copyToClipboard} className={actionClassName} aria-label="Copy message">
+                  {isCopied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                </button>
+                {isUser ? (
+                  <button
+                    onClick={startEditing}
+                    disabled={disabled}
+                    className={actionClassName}
+                    aria-label="Edit message"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={onRegenerate}
+                    disabled={disabled}
+                    className={actionClassName}
+                    aria-label="Regenerate reply"
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                  </button>
+                )}
+                <button onClick={onDelete} disabled={disabled} className={actionClassName} aria-label="Delete message">
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export function MessageAvatar({ role }: { role: Message["role"] }) {
+  return (
+    <div
+      className={`flex-shrink-0 rounded-full p-2 ${
+        role === "user" ? "bg-blue-600 text-white" : "bg-gray-200 dark:bg-gray-700"
+      }`}
+    >
+      {role === "user" ? <User className="h-4 w-4" /> : <Bot className="h-4 w-4" />}
+    </div>
+  )
+}
+
+// The message itself: plain text for the user, rendered Markdown for the assistant. Also used for HTML exports.
+export function MessageBubble({ message }: { message: Message }) {
+  const isUser = message.role === "user"
+
+  return (
+    <div
+      className={`p-3 rounded-lg ${
+        isUser ? "bg-blue-600 text-white" : "bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+      }`}
+    >
+      {isUser ? (
+        <div className="whitespace-pre-wrap">{message.content}</div>
+      ) : (
+        message.content && (
+          <div className="markdown-content">
+            <ReactMarkdown remarkPlugins={[remarkGfm]}>{message.content}</ReactMarkdown>
+          </div>
+        )
+      )}
+      {message.error && (
+        <div
+          className={`flex items-start gap-2 text-sm text-red-700 dark:text-red-300 ${message.content ? "mt-2" : ""}`}
+        >
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span className="whitespace-pre-wrap break-words">{message.error}</span>
+        </div>
+      )}
+      {(message.stats || message.stopped || message.model) && (
+        <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">{formatMessageStats(message)}</div>
+      )}
+    </div>
+  )
+}
+
+// Summary line shown under a finished reply, e.g. "llama3 · 0.8s to first token · 24.3 tokens/s"
+function formatMessageStats(message: Message) {
+  const parts: string[] = []
+  const { timeToFirstToken, tokensPerSecond } = message.stats ?? {}
+
+  if (message.model) parts.push(message.model)
+  if (timeToFirstToken !== undefined) parts.push(`${(timeToFirstToken / 1000).toFixed(2)}s to first token`)
+  if (tokensPerSecond !== undefined) parts.push(`${tokensPerSecond.toFixed(1)} tokens/s`)
+  if (message.stopped) parts.push("Stopped")
+
+  return parts.join(" · ")
+}
@@ -0,0 +1,94 @@
+"use client"
+
+import { AlertTriangle, RefreshCw, Settings } from "lucide-react"
+import { getEndpointStatus } from "@/hooks/use-endpoint-health"
+import { getEndpointUrl } from "@/lib/endpoints"
+import type { HealthResult } from "@/lib/providers"
+import type { Endpoint } from "@/lib/types"
+
+interface ConnectionBadgeProps {
+  endpoint: Endpoint
+  health?: HealthResult
+}
+
+const statusStyles = {
+  checking: { dot: "bg-gray-400", label: "Checking..." },
+  online: { dot: "bg-green-500", label: "Online" },
+  slow: { dot: "bg-amber-500", label: "Slow" },
+  offline: { dot: "bg-red-500", label: "Offline" },
+}
+
+// Small header pill showing whether the conversation's endpoint is reachable
+export function ConnectionBadge({ endpoint, health }: ConnectionBadgeProps) {
+  const status = getEndpointStatus(health)
+  const { dot, label } = statusStyles[status]
+
+  return (
+    <span
+      className="inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full border border-gray-300 dark:border-gray-600 text-xs text-gray-700 dark:text-gray-300"
+      title={`${endpoint.name} (${getEndpointUrl(endpoint)})${health?.error ? `: ${health.error}` : ""}`}
+    >
+      <span className={`h-2 w-2 rounded-full ${dot}`} />
+      {label}
+      {(status === "online" || status === "slow") && (
+        <span className="text-gray-500 dark:text-gray-400">{Math.round(health!.latencyMs)} ms</span>
+      )}
+    </span>
+  )
+}
+
+interface ConnectionBannerProps {
+  endpoint: Endpoint
+  health: HealthResult
+  onRetry: () => void
+  onOpenSettings: () => void
+}
+
+// Explain in plain words why the endpoint can't be reached and what to change
+function describeFailure(endpoint: Endpoint, health: HealthResult) {
+  const url = getEndpointUrl(endpoint)
+
+  switch (health.failure) {
+    case "cors":
+      return `The server at ${url} is running, but it doesn't allow requests from this page (CORS). Enable CORS on the server, e.g. with OLLAMA_ORIGINS for Ollama or the CORS option in LM Studio, or switch the endpoint's connection to "Through this app's server" in Settings.`
+    case "mixed-content":
+      return `This page is served over HTTPS, so the browser blocks requests to the plain-HTTP server at ${url}. Use https for the endpoint, or switch its connection to "Through this app's server" in Settings.`
+    case "not-found":
+      return `${url} is reachable but answered 404 Not Found. Check the endpoint's base path and server type in Settings.`
+    case "http-error":
+      return `${url} answered with an error${health.error ? `: ${health.error}` : ""}. If the server needs an API key, set it in Settings.`
+    default:
+      return `Couldn't connect to ${url}${endpoint.mode === "proxy" ? " from this app's server" : ""}. Make sure the server is running and the host and port are right.`
+  }
+}
+
+// Shown above the messages while the conversation's endpoint is offline
+export function ConnectionBanner({ endpoint, health, onRetry, onOpenSettings }: ConnectionBannerProps) {
+  return (
+    <div className="flex items-start gap-3 p-3 border-b border-red-200 dark:border-red-900 bg-red-50 dark:bg-red-950 text-sm text-red-800 dark:text-red-200">
+      <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+      <div className="flex-1 min-w-0">
+        <p className="font-medium">{endpoint.name} is not available</p>
+        <p className="mt-1">{describeFailure(endpoint, health)}</p>
+      </div>
+      <div className="flex flex-shrink-0 gap-1">
+        <button
+          onClick={onRetry}
+          className="p-2 rounded-md hover:bg-red-100 dark:hover:bg-red-900"
+          aria-label="Check again"
+          title="Check again"
+        >
+          <RefreshCw className="h-4 w-4" />
+        </button>
+        <button
+          onClick={onOpenSettings}
+          className="p-2 rounded-md hover:bg-red-100 dark:hover:bg-red-900"
+          aria-label="Settings"
+          title="Settings"
+        >
+          <Settings className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,130 @@
+"use client"
+
+import { useState } from "react"
+import { Archive, ArchiveRestore, Download, FolderInput, Tag, Trash2 } from "lucide-react"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { parseTags } from "@/lib/conversation-groups"
+import type { Folder } from "@/lib/types"
+
+interface ConversationBulkActionsProps {
+  selectedCount: number
+  folders: Folder[]
+  // In the "Archived" view the archive action restores instead
+  isArchivedView: boolean
+  onArchive: (archived: boolean) => void
+  onMove: (folderId: string | undefined) => void
+  onAddTags: (tags: string[]) => void
+  onExport: () => void
+  onDelete: () => void
+  onDone: () => void
+}
+
+const baseButtonClassName =
+  "p-2 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:hover:bg-transparent"
+const buttonClassName = `${baseButtonClassName} text-gray-700 dark:text-gray-300`
+
+// Actions on the conversations checked in the sidebar's multi-select mode
+export function ConversationBulkActions({
+  selectedCount,
+  folders,
+  isArchivedView,
+  onArchive,
+  onMove,
+  onAddTags,
+  onExport,
+  onDelete,
+  onDone,
+}: ConversationBulkActionsProps) {
+  const [isTagging, setIsTagging] = useState(false)
+  const isEmpty = selectedCount === 0
+
+  const addTags = (value: string) => {
+    const tags = parseTags(value)
+    if (tags.length > 0) onAddTags(tags)
+    setIsTagging(false)
+  }
+
+  return (
+    <div className="mb-2 p-2 rounded-md bg-gray-100 dark:bg-gray-700">
+      <div className="flex items-center justify-between px-1 text-sm text-gray-700 dark:text-gray-300">
+        <span>{selectedCount} selected</span>
+        <button onClick={onDone} className="text-blue-600 dark:text-blue-400 hover:underline">
+          Done
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1 mt-1">
+        <button
+          onClick={() => onArchive(!isArchivedView)}
+          disabled={isEmpty}
+          className={buttonClassName}
+          aria-label={isArchivedView ? "Restore selected" : "Archive selected"}
+          title={isArchivedView ? "Restore" : "Archive"}
+        >
+          {isArchivedView ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+        </button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button
+              disabled={isEmpty}
+              className={buttonClassName}
+              aria-label="Move selected to folder"
+              title="Move to folder"
+            >
+              <FolderInput className="h-4 w-4" />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuItem onSelect={() => onMove(undefined)}>No folder</DropdownMenuItem>
+            {folders.map((folder) => (
+              <DropdownMenuItem key={folder.id} onSelect={() => onMove(folder.id)}>
+                {folder.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <button
+          onClick={() => setIsTagging(!isTagging)}
+          disabled={isEmpty}
+          className={buttonClassName}
+          aria-label="Tag selected"
+          title="Add tags"
+        >
+          <Tag className="h-4 w-4" />
+        </button>
+        <button
+          onClick={onExport}
+          disabled={isEmpty}
+          className={buttonClassName}
+          aria-label="Export selected"
+          title="Export (.zip)"
+        >
+          <Download className="h-4 w-4" />
+        </button>
+        <button
+          onClick={onDelete}
+          disabled={isEmpty}
+          className={`${baseButtonClassName} ml-auto text-red-600 dark:text-red-400`}
+          aria-label="Delete selected"
+          title="Delete"
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+
+      {isTagging && !isEmpty && (
+        <input
+          type="text"
+          placeholder="Tags to add, separated by commas"
+          autoFocus
+          onKeyDown={(e) => {
+            if (e.key === "Enter") addTags(e.currentTarget.value)
+            else if (e.key === "Escape") setIsTagging(false)
+          }}
+          aria-label="Tags to add"
+          className="w-full mt-1 p-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+"use client"
+
+import type React from "react"
+
+import { renderToStaticMarkup } from "react-dom/server"
+import { MessageAvatar, MessageBubble } from "@/components/chat-message"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { downloadFile } from "@/lib/download"
+import {
+  EXPORT_FORMATS,
+  createZip,
+  exportToJson,
+  exportToMarkdown,
+  formatTimestamp,
+  getExportName,
+  getUniqueExportNames,
+  type ExportFormat,
+} from "@/lib/export"
+import { getPathMessages } from "@/lib/message-tree"
+import type { Conversation } from "@/lib/types"
+
+// The visible branch laid out like the chat, built from the same message components
+function ExportedConversation({ conversation }: { conversation: Conversation }) {
+  return (
+    <div className="min-h-screen p-4 bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-3xl mx-auto space-y-4">
+        <div>
+          <h1 className="font-bold text-xl text-gray-900 dark:text-white">{conversation.title}</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {[conversation.model, formatTimestamp(conversation.timestamp)].filter(Boolean).join(" · ")}
+          </p>
+        </div>
+        {getPathMessages(conversation).map((message, index) => (
+          <div key={index} className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}>
+            <div
+              className={`flex items-start gap-2 max-w-[85%] ${message.role === "user" ? "flex-row-reverse" : "flex-row"}`}
+            >
+              <MessageAvatar role={message.role} />
+              <MessageBubble message={message} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// The app's compiled stylesheets, inlined so the exported page needs nothing else to look the same
+function getPageStyles() {
+  return Array.from(document.styleSheets)
+    .flatMap((sheet) => {
+      try {
+        return Array.from(sheet.cssRules, (rule) => rule.cssText)
+      } catch {
+        // Stylesheets from other origins can't be read
+        return []
+      }
+    })
+    .join("\n")
+}
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+// A self-contained HTML page of the conversation, in the current light or dark theme
+export function renderConversationHtml(conversation: Conversation, styles = getPageStyles()) {
+  const isDark = document.documentElement.classList.contains("dark")
+  return `<!DOCTYPE html>
+<html lang="en"${isDark ? ' class="dark"' : ""}>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(conversation.title)}</title>
+<style>${styles}</style>
+</head>
+<body>${renderToStaticMarkup(<ExportedConversation conversation={conversation} />)}</body>
+</html>
+`
+}
+
+function renderExport(conversation: Conversation, format: ExportFormat) {
+  switch (format) {
+    case "markdown":
+      return exportToMarkdown(conversation)
+    case "json":
+      return exportToJson([conversation])
+    case "html":
+      return renderConversationHtml(conversation)
+  }
+}
+
+export function downloadConversation(conversation: Conversation, format: ExportFormat) {
+  const { extension, type } = EXPORT_FORMATS.find((f) => f.format === format)!
+  downloadFile(`${getExportName(conversation)}.${extension}`, renderExport(conversation, format), type)
+}
+
+// One zip with every conversation as Markdown and HTML, plus a single JSON file with all of them for re-importing
+export function downloadAllConversations(conversations: Conversation[]) {
+  const styles = getPageStyles()
+  const files: Record<string, string> = { "conversations.json": exportToJson(conversations) }
+
+  getUniqueExportNames(conversations).forEach((name, index) => {
+    files[`markdown/${name}.md`] = exportToMarkdown(conversations[index])
+    files[`html/${name}.html`] = renderConversationHtml(conversations[index], styles)
+  })
+
+  downloadFile(`conversations-${new Date().toISOString().slice(0, 10)}.zip`, createZip(files), "application/zip")
+}
+
+interface ExportMenuProps {
+  conversation: Conversation
+  // The button that opens the menu
+  children: React.ReactNode
+  align?: "start" | "end"
+}
+
+export function ExportMenu({ conversation, children, align = "end" }: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>{children}</DropdownMenuTrigger>
+      <DropdownMenuContent align={align}>
+        <DropdownMenuLabel>Export as</DropdownMenuLabel>
+        {EXPORT_FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} onSelect={() => downloadConversation(conversation, format)}>
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,706 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import {
+  Archive,
+  ArchiveRestore,
+  ChevronDown,
+  ChevronRight,
+  Copy,
+  Download,
+  Folder as FolderIcon,
+  FolderInput,
+  FolderPlus,
+  MessageSquare,
+  MoreHorizontal,
+  Pencil,
+  Pin,
+  PinOff,
+  Sparkles,
+  Tag,
+  Trash2,
+} from "lucide-react"
+import { downloadConversation } from "@/components/conversation-export"
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  filterConversations,
+  getFilterOptions,
+  groupByDate,
+  parseTags,
+  sortByTimestamp,
+  type ConversationFilter,
+} from "@/lib/conversation-groups"
+import { EXPORT_FORMATS } from "@/lib/export"
+import type { Conversation, Folder } from "@/lib/types"
+import { generateId } from "@/lib/utils"
+
+// Changes the sidebar can make to a conversation
+export type ConversationChanges = Partial<Pick<Conversation, "title" | "pinned" | "folderId" | "tags" | "archived">>
+
+interface SelectionProps {
+  // The checked conversations while in multi-select mode, null otherwise
+  selectedIds: Set<string> | null
+  onSelectionChange: (ids: Set<string>) => void
+}
+
+interface ConversationListProps extends SelectionProps {
+  conversations: Conversation[]
+  folders: Folder[]
+  currentId: string
+  // Conversations a reply is being generated in; they can't be changed or deleted until it's done
+  busyIds: Set<string>
+  onSelect: (id: string) => void
+  onUpdate: (id: string, changes: ConversationChanges) => void
+  onDuplicate: (id: string) => void
+  // Ask the model for a new title
+  onRegenerateTitle: (id: string) => void
+  onDelete: (id: string) => void
+  onFoldersChange: (folders: Folder[]) => void
+}
+
+// Drag data type for moving conversations between folders
+const DRAG_TYPE = "application/x-conversation-id"
+
+const selectClassName =
+  "flex-1 min-w-0 p-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+const inputClassName =
+  "flex-1 min-w-0 m-1 p-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+const headingClassName = "px-2 pt-3 pb-1 text-xs font-medium text-gray-500 dark:text-gray-400"
+
+// The context menu and the "..." menu show the same items, built from either set of parts
+interface MenuParts {
+  Item: React.ComponentType<{
+    onSelect?: (event: Event) => void
+    disabled?: boolean
+    className?: string
+    children?: React.ReactNode
+  }>
+  Sub: React.ComponentType<{ children?: React.ReactNode }>
+  SubTrigger: React.ComponentType<{ className?: string; children?: React.ReactNode }>
+  SubContent: React.ComponentType<{ children?: React.ReactNode }>
+  Separator: React.ComponentType
+}
+
+const CONTEXT_MENU_PARTS: MenuParts = {
+  Item: ContextMenuItem,
+  Sub: ContextMenuSub,
+  SubTrigger: ContextMenuSubTrigger,
+  SubContent: ContextMenuSubContent,
+  Separator: ContextMenuSeparator,
+}
+
+const DROPDOWN_MENU_PARTS: MenuParts = {
+  Item: DropdownMenuItem,
+  Sub: DropdownMenuSub,
+  SubTrigger: DropdownMenuSubTrigger,
+  SubContent: DropdownMenuSubContent,
+  Separator: DropdownMenuSeparator,
+}
+
+interface ConversationMenuItemsProps {
+  parts: MenuParts
+  conversation: Conversation
+  folders: Folder[]
+  isBusy: boolean
+  onEdit: (field: "title" | "tags") => void
+  onUpdate: (changes: ConversationChanges) => void
+  onDuplicate: () => void
+  onRegenerateTitle: () => void
+  onDelete: () => void
+}
+
+function ConversationMenuItems({
+  parts: { Item, Sub, SubTrigger, SubContent, Separator },
+  conversation,
+  folders,
+  isBusy,
+  onEdit,
+  onUpdate,
+  onDuplicate,
+  onRegenerateTitle,
+  onDelete,
+}: ConversationMenuItemsProps) {
+  return (
+    <>
+      <Item onSelect={() => onEdit("title")} disabled={isBusy} className="gap-2">
+        <Pencil className="h-4 w-4" />
+        Rename
+      </Item>
+      <Item onSelect={onRegenerateTitle} disabled={isBusy} className="gap-2">
+        <Sparkles className="h-4 w-4" />
+        Regenerate title
+      </Item>
+      <Item onSelect={() => onUpdate({ pinned: !conversation.pinned })} disabled={isBusy} className="gap-2">
+        {conversation.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+        {conversation.pinned ? "Unpin" : "Pin to top"}
+      </Item>
+      <Item onSelect={() => onEdit("tags")} disabled={isBusy} className="gap-2">
+        <Tag className="h-4 w-4" />
+        Edit tags
+      </Item>
+      <Item onSelect={onDuplicate} className="gap-2">
+        <Copy className="h-4 w-4" />
+        Duplicate
+      </Item>
+      {!isBusy && (
+        <Sub>
+          <SubTrigger className="gap-2">
+            <FolderInput className="h-4 w-4" />
+            Move to folder
+          </SubTrigger>
+          <SubContent>
+            <Item onSelect={() => onUpdate({ folderId: undefined })} disabled={!conversation.folderId}>
+              No folder
+            </Item>
+            {folders.map((folder) => (
+              <Item
+                key={folder.id}
+                onSelect={() => onUpdate({ folderId: folder.id })}
+                disabled={conversation.folderId === folder.id}
+              >
+                {folder.name}
+              </Item>
+            ))}
+          </SubContent>
+        </Sub>
+      )}
+      <Sub>
+        <SubTrigger className="gap-2">
+          <Download className="h-4 w-4" />
+          Export as
+        </SubTrigger>
+        <SubContent>
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <Item key={format} onSelect={() => downloadConversation(conversation, format)}>
+              {label}
+            </Item>
+          ))}
+        </SubContent>
+      </Sub>
+      <Item onSelect={() => onUpdate({ archived: true })} disabled={isBusy} className="gap-2">
+        <Archive className="h-4 w-4" />
+        Archive
+      </Item>
+      <Separator />
+      <Item
+        onSelect={onDelete}
+        disabled={isBusy}
+        className="gap-2 text-red-600 dark:text-red-400 focus:text-red-600 dark:focus:text-red-400"
+      >
+        <Trash2 className="h-4 w-4" />
+        Delete
+      </Item>
+    </>
+  )
+}
+
+function ConversationTitle({ conversation }: { conversation: Conversation }) {
+  return (
+    <div className="min-w-0">
+      <p className="truncate text-gray-900 dark:text-white">{conversation.title}</p>
+      {conversation.tags && conversation.tags.length > 0 && (
+        <p className="truncate text-xs text-gray-500 dark:text-gray-400">
+          {conversation.tags.map((tag) => `#${tag}`).join(" ")}
+        </p>
+      )}
+    </div>
+  )
+}
+
+interface SelectCheckboxProps {
+  conversation: Conversation
+  isSelected: boolean
+  onToggle: () => void
+}
+
+// Takes the place of the row's button in multi-select mode
+function SelectCheckbox({ conversation, isSelected, onToggle }: SelectCheckboxProps) {
+  return (
+    <label className="flex flex-1 min-w-0 items-center gap-2 p-2 cursor-pointer">
+      <input type="checkbox" checked={isSelected} onChange={onToggle} className="h-4 w-4 flex-shrink-0" />
+      <ConversationTitle conversation={conversation} />
+    </label>
+  )
+}
+
+// Checks or unchecks every conversation shown
+function SelectAllCheckbox({ ids, selectedIds, onSelectionChange }: SelectionProps & { ids: string[] }) {
+  const isAllSelected = ids.length > 0 && ids.every((id) => selectedIds?.has(id))
+  return (
+    <label className="flex items-center gap-2 px-2 py-1 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={isAllSelected}
+        onChange={() => onSelectionChange(isAllSelected ? new Set() : new Set(ids))}
+        className="h-4 w-4"
+      />
+      Select all
+    </label>
+  )
+}
+
+function toggleSelected({ selectedIds, onSelectionChange }: SelectionProps, id: string) {
+  const next = new Set(selectedIds)
+  if (next.has(id)) next.delete(id)
+  else next.add(id)
+  onSelectionChange(next)
+}
+
+interface ConversationRowProps {
+  conversation: Conversation
+  folders: Folder[]
+  isCurrent: boolean
+  isBusy: boolean
+  // Undefined outside multi-select mode
+  isSelected?: boolean
+  onToggleSelected: () => void
+  onSelect: () => void
+  onUpdate: (changes: ConversationChanges) => void
+  onDuplicate: () => void
+  onRegenerateTitle: () => void
+  onDelete: () => void
+}
+
+function ConversationRow({
+  conversation,
+  folders,
+  isCurrent,
+  isBusy,
+  isSelected,
+  onToggleSelected,
+  onSelect,
+  onUpdate,
+  onDuplicate,
+  onRegenerateTitle,
+  onDelete,
+}: ConversationRowProps) {
+  // Title or tags being edited in place
+  const [editing, setEditing] = useState<"title" | "tags" | null>(null)
+
+  const finishEditing = (value: string) => {
+    if (editing === "title") {
+      const title = value.trim()
+      if (title && title !== conversation.title) onUpdate({ title })
+    } else if (editing === "tags") {
+      onUpdate({ tags: parseTags(value) })
+    }
+    setEditing(null)
+  }
+
+  const menuItemsProps = {
+    conversation,
+    folders,
+    isBusy,
+    onEdit: setEditing,
+    onUpdate,
+    onDuplicate,
+    onRegenerateTitle,
+    onDelete,
+  }
+  const isSelecting = isSelected !== undefined
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild disabled={isSelecting}>
+        <div
+          draggable={!isBusy && !editing && !isSelecting}
+          onDragStart={(e) => {
+            e.dataTransfer.setData(DRAG_TYPE, conversation.id)
+            e.dataTransfer.effectAllowed = "move"
+          }}
+          className={`group flex items-center rounded-md ${
+            isCurrent ? "bg-gray-200 dark:bg-gray-700" : "hover:bg-gray-100 dark:hover:bg-gray-700"
+          }`}
+        >
+          {editing ? (
+            <input
+              type="text"
+              defaultValue={editing === "title" ? conversation.title : (conversation.tags ?? []).join(", ")}
+              placeholder={editing === "tags" ? "Tags, separated by commas" : undefined}
+              autoFocus
+              onFocus={(e) => e.target.select()}
+              onBlur={(e) => finishEditing(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") finishEditing(e.currentTarget.value)
+                else if (e.key === "Escape") setEditing(null)
+              }}
+              aria-label={editing === "title" ? "Conversation title" : "Conversation tags"}
+              className={inputClassName}
+            />
+          ) : isSelecting ? (
+            <SelectCheckbox conversation={conversation} isSelected={isSelected} onToggle={onToggleSelected} />
+          ) : (
+            <button onClick={onSelect} className="flex flex-1 min-w-0 items-center gap-2 p-2 text-left">
+              {conversation.pinned ? (
+                <Pin className="h-4 w-4 flex-shrink-0 text-gray-700 dark:text-gray-300" />
+              ) : (
+                <MessageSquare className="h-4 w-4 flex-shrink-0 text-gray-700 dark:text-gray-300" />
+              )}
+              <ConversationTitle conversation={conversation} />
+            </button>
+          )}
+
+          {!isSelecting && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button
+                  className="p-1 mr-1 rounded-md text-gray-500 dark:text-gray-400 hover:bg-gray-300 dark:hover:bg-gray-600 opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100"
+                  aria-label={`Actions for ${conversation.title}`}
+                >
+                  <MoreHorizontal className="h-4 w-4" />
+                </button>
+              </DropdownMenuTrigger>
+              {/* Focus stays in the rename field instead of returning to the trigger */}
+              <DropdownMenuContent align="start" onCloseAutoFocus={(e) => e.preventDefault()}>
+                <ConversationMenuItems parts={DROPDOWN_MENU_PARTS} {...menuItemsProps} />
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+      </ContextMenuTrigger>
+
+      <ContextMenuContent onCloseAutoFocus={(e) => e.preventDefault()}>
+        <ConversationMenuItems parts={CONTEXT_MENU_PARTS} {...menuItemsProps} />
+      </ContextMenuContent>
+    </ContextMenu>
+  )
+}
+
+// The sidebar's conversations: pinned ones, then folders, then the rest grouped by date.
+// Conversations can be dragged onto a folder, or onto the date groups to take them out of one.
+export function ConversationList({
+  conversations,
+  folders,
+  currentId,
+  busyIds,
+  selectedIds,
+  onSelectionChange,
+  onSelect,
+  onUpdate,
+  onDuplicate,
+  onRegenerateTitle,
+  onDelete,
+  onFoldersChange,
+}: ConversationListProps) {
+  const [filter, setFilter] = useState<ConversationFilter>({})
+  const [collapsedFolderIds, setCollapsedFolderIds] = useState<Set<string>>(new Set())
+  const [renamingFolderId, setRenamingFolderId] = useState<string | null>(null)
+  // Folder id, or "" for the date groups, that a conversation is being dragged over
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+
+  const { tags, models } = getFilterOptions(conversations)
+  // A tag or model that no longer appears in the list, e.g. after its last conversation was deleted,
+  // has no select left to clear it, so it stops filtering
+  const activeFilter: ConversationFilter = {
+    tag: filter.tag && tags.includes(filter.tag) ? filter.tag : undefined,
+    model: filter.model && models.length > 1 && models.includes(filter.model) ? filter.model : undefined,
+  }
+  const visible = filterConversations(conversations, activeFilter)
+  const folderIds = new Set(folders.map((f) => f.id))
+  const isInFolder = (c: Conversation) => c.folderId !== undefined && folderIds.has(c.folderId)
+  const pinned = sortByTimestamp(visible.filter((c) => c.pinned && !isInFolder(c)))
+  const dateGroups = groupByDate(visible.filter((c) => !c.pinned && !isInFolder(c)))
+
+  const renderRow = (conversation: Conversation) => (
+    <ConversationRow
+      key={conversation.id}
+      conversation={conversation}
+      folders={folders}
+      isCurrent={conversation.id === currentId}
+      isBusy={busyIds.has(conversation.id)}
+      isSelected={selectedIds ? selectedIds.has(conversation.id) : undefined}
+      onToggleSelected={() => toggleSelected({ selectedIds, onSelectionChange }, conversation.id)}
+      onSelect={() => onSelect(conversation.id)}
+      onUpdate={(changes) => onUpdate(conversation.id, changes)}
+      onDuplicate={() => onDuplicate(conversation.id)}
+      onRegenerateTitle={() => onRegenerateTitle(conversation.id)}
+      onDelete={() => onDelete(conversation.id)}
+    />
+  )
+
+  // Props that make an element accept dropped conversations, moving them into `folderId`
+  const dropTargetProps = (folderId: string | undefined) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(DRAG_TYPE)) return
+      e.preventDefault()
+      e.dataTransfer.dropEffect = "move"
+      setDropTarget(folderId ?? "")
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null)
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault()
+      setDropTarget(null)
+      const id = e.dataTransfer.getData(DRAG_TYPE)
+      if (id && !busyIds.has(id)) onUpdate(id, { folderId })
+    },
+  })
+  const dropHighlight = (folderId: string | undefined) =>
+    dropTarget === (folderId ?? "") ? "ring-2 ring-blue-500 ring-inset rounded-md" : ""
+
+  const createFolder = () => {
+    const folder = { id: generateId(), name: "New folder" }
+    onFoldersChange([...folders, folder])
+    setRenamingFolderId(folder.id)
+  }
+
+  const renameFolder = (id: string, name: string) => {
+    setRenamingFolderId(null)
+    if (name.trim()) onFoldersChange(folders.map((f) => (f.id === id ? { ...f, name: name.trim() } : f)))
+  }
+
+  const toggleFolder = (id: string) => {
+    setCollapsedFolderIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  return (
+    <div>
+      {(tags.length > 0 || models.length > 1) && (
+        <div className="flex gap-2 mb-2">
+          {tags.length > 0 && (
+            <select
+              value={activeFilter.tag ?? ""}
+              onChange={(e) => setFilter({ ...activeFilter, tag: e.target.value || undefined })}
+              aria-label="Filter by tag"
+              className={selectClassName}
+            >
+              <option value="">All tags</option>
+              {tags.map((tag) => (
+                <option key={tag} value={tag}>
+                  #{tag}
+                </option>
+              ))}
+            </select>
+          )}
+          {models.length > 1 && (
+            <select
+              value={activeFilter.model ?? ""}
+              onChange={(e) => setFilter({ ...activeFilter, model: e.target.value || undefined })}
+              aria-label="Filter by model"
+              className={selectClassName}
+            >
+              <option value="">All models</option>
+              {models.map((model) => (
+                <option key={model} value={model}>
+                  {model}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+
+      {selectedIds && (
+        <SelectAllCheckbox
+          ids={visible.map((c) => c.id)}
+          selectedIds={selectedIds}
+          onSelectionChange={onSelectionChange}
+        />
+      )}
+
+      {pinned.length > 0 && (
+        <div className="space-y-1">
+          <p className={headingClassName}>Pinned</p>
+          {pinned.map(renderRow)}
+        </div>
+      )}
+
+      {folders.map((folder) => {
+        const inFolder = visible.filter((c) => c.folderId === folder.id)
+        const isCollapsed = collapsedFolderIds.has(folder.id)
+        return (
+          <div key={folder.id} className={`mt-1 ${dropHighlight(folder.id)}`} {...dropTargetProps(folder.id)}>
+            <div className="group flex items-center rounded-md hover:bg-gray-100 dark:hover:bg-gray-700">
+              {renamingFolderId === folder.id ? (
+                <input
+                  type="text"
+                  defaultValue={folder.name}
+                  autoFocus
+                  onFocus={(e) => e.target.select()}
+                  onBlur={(e) => renameFolder(folder.id, e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") renameFolder(folder.id, e.currentTarget.value)
+                    else if (e.key === "Escape") setRenamingFolderId(null)
+                  }}
+                  aria-label="Folder name"
+                  className={inputClassName}
+                />
+              ) : (
+                <button
+                  onClick={() => toggleFolder(folder.id)}
+                  onDoubleClick={() => setRenamingFolderId(folder.id)}
+                  className="flex flex-1 min-w-0 items-center gap-1 p-2 text-left text-sm font-medium text-gray-700 dark:text-gray-300"
+                  aria-expanded={!isCollapsed}
+                >
+                  {isCollapsed ? (
+                    <ChevronRight className="h-4 w-4 flex-shrink-0" />
+                  ) : (
+                    <ChevronDown className="h-4 w-4 flex-shrink-0" />
+                  )}
+                  <FolderIcon className="h-4 w-4 flex-shrink-0" />
+                  <span className="truncate">{folder.name}</span>
+                  <span className="ml-auto text-xs text-gray-500 dark:text-gray-400">{inFolder.length}</span>
+                </button>
+              )}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <button
+                    className="p-1 mr-1 rounded-md text-gray-500 dark:text-gray-400 hover:bg-gray-300 dark:hover:bg-gray-600 opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100"
+                    aria-label={`Actions for folder ${folder.name}`}
+                  >
+                    <MoreHorizontal className="h-4 w-4" />
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start" onCloseAutoFocus={(e) => e.preventDefault()}>
+                  <DropdownMenuItem onSelect={() => setRenamingFolderId(folder.id)}>
+                    <Pencil className="h-4 w-4" />
+                    Rename
+                  </DropdownMenuItem>
+                  {/* Its conversations go back to the date groups */}
+                  <DropdownMenuItem
+                    onSelect={() => onFoldersChange(folders.filter((f) => f.id !== folder.id))}
+                    className="text-red-600 dark:text-red-400 focus:text-red-600 dark:focus:text-red-400"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Delete folder
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+            {!isCollapsed && (
+              <div className="pl-3 space-y-1">
+                {sortByTimestamp(inFolder.filter((c) => c.pinned)).map(renderRow)}
+                {sortByTimestamp(inFolder.filter((c) => !c.pinned)).map(renderRow)}
+              </div>
+            )}
+          </div>
+        )
+      })}
+
+      <button
+        onClick={createFolder}
+        className="flex items-center gap-2 w-full p-2 mt-1 rounded-md text-sm text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+      >
+        <FolderPlus className="h-4 w-4" />
+        <span>New folder</span>
+      </button>
+
+      <div className={`min-h-8 ${dropHighlight(undefined)}`} {...dropTargetProps(undefined)}>
+        {dateGroups.map((group) => (
+          <div key={group.label} className="space-y-1">
+            <p className={headingClassName}>{group.label}</p>
+            {group.conversations.map(renderRow)}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+interface ArchivedConversationListProps extends SelectionProps {
+  conversations: Conversation[]
+  currentId: string
+  busyIds: Set<string>
+  onSelect: (id: string) => void
+  onRestore: (id: string) => void
+  onDelete: (id: string) => void
+}
+
+// The sidebar's "Archived" view, newest first. Archived conversations can still be opened.
+export function ArchivedConversationList({
+  conversations,
+  currentId,
+  busyIds,
+  selectedIds,
+  onSelectionChange,
+  onSelect,
+  onRestore,
+  onDelete,
+}: ArchivedConversationListProps) {
+  if (conversations.length === 0) {
+    return <p className="p-2 text-sm text-gray-500 dark:text-gray-400">No archived conversations</p>
+  }
+
+  return (
+    <div className="space-y-1">
+      {selectedIds && (
+        <SelectAllCheckbox
+          ids={conversations.map((c) => c.id)}
+          selectedIds={selectedIds}
+          onSelectionChange={onSelectionChange}
+        />
+      )}
+      {sortByTimestamp(conversations).map((conversation) => (
+        <div
+          key={conversation.id}
+          className={`group flex items-center rounded-md ${
+            conversation.id === currentId ? "bg-gray-200 dark:bg-gray-700" : "hover:bg-gray-100 dark:hover:bg-gray-700"
+          }`}
+        >
+          {selectedIds ? (
+            <SelectCheckbox
+              conversation={conversation}
+              isSelected={selectedIds.has(conversation.id)}
+              onToggle={() => toggleSelected({ selectedIds, onSelectionChange }, conversation.id)}
+            />
+          ) : (
+            <>
+              <button
+                onClick={() => onSelect(conversation.id)}
+                className="flex flex-1 min-w-0 items-center gap-2 p-2 text-left"
+              >
+                <Archive className="h-4 w-4 flex-shrink-0 text-gray-700 dark:text-gray-300" />
+                <ConversationTitle conversation={conversation} />
+              </button>
+              <button
+                onClick={() => onRestore(conversation.id)}
+                disabled={busyIds.has(conversation.id)}
+                className="p-1 rounded-md text-gray-500 dark:text-gray-400 hover:bg-gray-300 dark:hover:bg-gray-600 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                aria-label={`Restore ${conversation.title}`}
+                title="Restore"
+              >
+                <ArchiveRestore className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => onDelete(conversation.id)}
+                disabled={busyIds.has(conversation.id)}
+                className="p-1 mr-1 rounded-md text-red-600 dark:text-red-400 hover:bg-gray-300 dark:hover:bg-gray-600 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                aria-label={`Delete ${conversation.title}`}
+                title="Delete"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,120 @@
+"use client"
+
+import type React from "react"
+
+import { useMemo, useState } from "react"
+import { Bot, MessageSquare, User } from "lucide-react"
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import type { SearchResult, SearchSnippet } from "@/lib/search"
+
+type Search = (query: string, limit?: number) => SearchResult[]
+
+function HighlightedSnippet({ snippet }: { snippet: SearchSnippet }) {
+  const parts: React.ReactNode[] = []
+  let position = 0
+  for (const [start, end] of snippet.highlights) {
+    parts.push(snippet.text.slice(position, start))
+    parts.push(
+      <mark key={start} className="bg-yellow-200 dark:bg-yellow-700 text-inherit rounded-sm">
+        {snippet.text.slice(start, end)}
+      </mark>,
+    )
+    position = end
+  }
+  parts.push(snippet.text.slice(position))
+  return <>{parts}</>
+}
+
+function ResultIcon({ result }: { result: SearchResult }) {
+  const Icon = result.nodeId === null ? MessageSquare : result.role === "user" ? User : Bot
+  return <Icon className="h-4 w-4 mt-0.5 flex-shrink-0 text-gray-500 dark:text-gray-400" />
+}
+
+const getResultKey = (result: SearchResult) => `${result.conversationId}/${result.nodeId ?? ""}`
+
+interface SearchResultListProps {
+  results: SearchResult[]
+  onSelect: (result: SearchResult) => void
+}
+
+// Matches shown in the sidebar in place of the conversation list while searching
+export function SearchResultList({ results, onSelect }: SearchResultListProps) {
+  if (results.length === 0) {
+    return <p className="p-2 text-sm text-gray-500 dark:text-gray-400">No matches</p>
+  }
+
+  return (
+    <div className="space-y-1">
+      {results.map((result) => (
+        <button
+          key={getResultKey(result)}
+          onClick={() => onSelect(result)}
+          className="flex items-start gap-2 w-full p-2 rounded-md text-left hover:bg-gray-100 dark:hover:bg-gray-700"
+        >
+          <ResultIcon result={result} />
+          <div className="min-w-0">
+            <p className="truncate text-sm font-medium text-gray-900 dark:text-white">{result.conversationTitle}</p>
+            {result.nodeId !== null && (
+              <p className="text-xs text-gray-600 dark:text-gray-400 line-clamp-3 break-words">
+                <HighlightedSnippet snippet={result.snippet} />
+              </p>
+            )}
+          </div>
+        </button>
+      ))}
+    </div>
+  )
+}
+
+interface SearchPaletteProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  search: Search
+  onSelect: (result: SearchResult) => void
+}
+
+// Command palette for searching every conversation, opened with Ctrl+K / Cmd+K
+export function SearchPalette({ open, onOpenChange, search, onSelect }: SearchPaletteProps) {
+  const [query, setQuery] = useState("")
+  const results = useMemo(() => search(query, 30), [search, query])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg">
+        <DialogTitle className="sr-only">Search conversations</DialogTitle>
+        {/* Results are ranked by the search index, so cmdk's own filtering is off */}
+        <Command
+          shouldFilter={false}
+          className="[&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3"
+        >
+          <CommandInput value={query} onValueChange={setQuery} placeholder="Search all conversations..." />
+          <CommandList className="max-h-[60vh]">
+            {query.trim() && <CommandEmpty>No matches</CommandEmpty>}
+            {results.map((result) => (
+              <CommandItem
+                key={getResultKey(result)}
+                value={getResultKey(result)}
+                onSelect={() => {
+                  onSelect(result)
+                  onOpenChange(false)
+                }}
+                className="items-start gap-2"
+              >
+                <ResultIcon result={result} />
+                <div className="min-w-0">
+                  <p className="truncate font-medium">{result.conversationTitle}</p>
+                  {result.nodeId !== null && (
+                    <p className="text-xs text-muted-foreground line-clamp-2 break-words">
+                      <HighlightedSnippet snippet={result.snippet} />
+                    </p>
+                  )}
+                </div>
+              </CommandItem>
+            ))}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  )
+}
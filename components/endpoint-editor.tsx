@@ -0,0 +1,160 @@
+"use client"
+
+import { Plus, Trash2 } from "lucide-react"
+import { PROVIDER_OPTIONS } from "@/lib/providers"
+import { DEFAULT_ENDPOINT, type Endpoint } from "@/lib/types"
+import { generateId } from "@/lib/utils"
+
+interface EndpointEditorProps {
+  endpoints: Endpoint[]
+  onChange: (endpoints: Endpoint[]) => void
+}
+
+const inputClassName =
+  "w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+const labelClassName = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+
+// Edits the list of saved servers in the settings dialog
+export function EndpointEditor({ endpoints, onChange }: EndpointEditorProps) {
+  const updateEndpoint = (id: string, changes: Partial<Endpoint>) => {
+    onChange(endpoints.map((e) => (e.id === id ? { ...e, ...changes } : e)))
+  }
+
+  const changeProvider = (endpoint: Endpoint, provider: Endpoint["provider"]) => {
+    const option = PROVIDER_OPTIONS.find((o) => o.type === provider)!
+    // Switch to the new server type's usual port unless a custom one was entered
+    const isDefaultPort = PROVIDER_OPTIONS.some((o) => o.defaultPort === endpoint.port)
+    updateEndpoint(endpoint.id, { provider, port: isDefaultPort ? option.defaultPort : endpoint.port })
+  }
+
+  const addEndpoint = () => {
+    onChange([...endpoints, { ...DEFAULT_ENDPOINT, id: generateId(), name: `Server ${endpoints.length + 1}` }])
+  }
+
+  const removeEndpoint = (id: string) => {
+    onChange(endpoints.filter((e) => e.id !== id))
+  }
+
+  return (
+    <div className="space-y-3">
+      {endpoints.map((endpoint) => (
+        <div key={endpoint.id} className="p-3 space-y-3 rounded-md border border-gray-200 dark:border-gray-700">
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <label className={labelClassName}>Name</label>
+              <input
+                type="text"
+                value={endpoint.name}
+                onChange={(e) => updateEndpoint(endpoint.id, { name: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <button
+              onClick={() => removeEndpoint(endpoint.id)}
+              disabled={endpoints.length === 1}
+              className="p-2 mb-0.5 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 text-red-600 dark:text-red-400 disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label={`Remove ${endpoint.name}`}
+            >
+              <Trash2 className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div>
+            <label className={labelClassName}>Server Type</label>
+            <select
+              value={endpoint.provider}
+              onChange={(e) => changeProvider(endpoint, e.target.value as Endpoint["provider"])}
+              className={inputClassName}
+            >
+              {PROVIDER_OPTIONS.map((option) => (
+                <option key={option.type} value={option.type}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className={labelClassName}>Connection</label>
+            <select
+              value={endpoint.mode}
+              onChange={(e) => updateEndpoint(endpoint.id, { mode: e.target.value as Endpoint["mode"] })}
+              className={inputClassName}
+            >
+              <option value="direct">Direct from the browser</option>
+              <option value="proxy">Through this app&apos;s server</option>
+            </select>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Use the server connection if the browser runs into CORS or mixed-content errors, or can&apos;t reach the
+              host itself.
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            <div className="w-24">
+              <label className={labelClassName}>Scheme</label>
+              <select
+                value={endpoint.scheme}
+                onChange={(e) => updateEndpoint(endpoint.id, { scheme: e.target.value as Endpoint["scheme"] })}
+                className={inputClassName}
+              >
+                <option value="http">http</option>
+                <option value="https">https</option>
+              </select>
+            </div>
+            <div className="flex-1">
+              <label className={labelClassName}>Host</label>
+              <input
+                type="text"
+                value={endpoint.host}
+                onChange={(e) => updateEndpoint(endpoint.id, { host: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div className="w-24">
+              <label className={labelClassName}>Port</label>
+              <input
+                type="text"
+                value={endpoint.port}
+                onChange={(e) => updateEndpoint(endpoint.id, { port: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <label className={labelClassName}>Base Path</label>
+              <input
+                type="text"
+                value={endpoint.basePath}
+                onChange={(e) => updateEndpoint(endpoint.id, { basePath: e.target.value })}
+                placeholder="/"
+                className={inputClassName}
+              />
+            </div>
+            <div className="flex-1">
+              <label className={labelClassName}>API Key</label>
+              <input
+                type="password"
+                value={endpoint.apiKey ?? ""}
+                onChange={(e) => updateEndpoint(endpoint.id, { apiKey: e.target.value || undefined })}
+                placeholder="Optional"
+                autoComplete="off"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={addEndpoint}
+        className="flex items-center gap-1 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+      >
+        <Plus className="h-4 w-4" />
+        Add Server
+      </button>
+    </div>
+  )
+}
@@ -2,37 +2,113 @@
 
 import type React from "react"
 
-import { useState, useRef, useEffect } from "react"
-import { Send, Loader2, Bot, User, Moon, Sun, Plus, Menu, Settings, MessageSquare, Save, X } from "lucide-react"
-import ReactMarkdown from "react-markdown"
-import remarkGfm from "remark-gfm"
-
-// Types for our application
-interface Message {
-  role: "user" | "assistant"
-  content: string
-}
-
-interface Conversation {
-  id: string
-  title: string
-  messages: Message[]
-  model: string
-  timestamp: number
-}
-
-interface ServerSettings {
-  host: string
-  port: string
-}
+import { useState, useRef, useEffect, useMemo } from "react"
+import {
+  Loader2,
+  Bot,
+  Moon,
+  Sun,
+  Plus,
+  Menu,
+  Settings,
+  MessageSquare,
+  Save,
+  X,
+  ScrollText,
+  Bookmark,
+  ChevronDown,
+  AlertTriangle,
+  Upload,
+  Download,
+  Search,
+  Archive,
+  ArrowLeft,
+  ListChecks,
+} from "lucide-react"
+import { ChatComposer } from "@/components/chat-composer"
+import { ChatMessage } from "@/components/chat-message"
+import { ChatMessageList } from "@/components/chat-message-list"
+import { ConnectionBadge, ConnectionBanner } from "@/components/connection-status"
+import { ExportMenu, downloadAllConversations } from "@/components/conversation-export"
+import { ConversationBulkActions } from "@/components/conversation-bulk-actions"
+import { ArchivedConversationList, ConversationList, type ConversationChanges } from "@/components/conversation-list"
+import { SearchPalette, SearchResultList } from "@/components/conversation-search"
+import { EndpointEditor } from "@/components/endpoint-editor"
+import { ModelSelect } from "@/components/model-select"
+import { PresetManager } from "@/components/preset-manager"
+import { QuarantineDialog } from "@/components/quarantine-dialog"
+import { SamplingParametersPanel } from "@/components/sampling-parameters-panel"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { ToastAction } from "@/components/ui/toast"
+import { useConversationSearch } from "@/hooks/use-conversation-search"
+import { useEndpointHealth } from "@/hooks/use-endpoint-health"
+import { toast } from "@/hooks/use-toast"
+import { buildPromptMessages, fitToContextWindow } from "@/lib/context-window"
+import { parseSavedFolders } from "@/lib/conversation-groups"
+import {
+  MAX_RETRIES,
+  MIN_CONTEXT_LENGTH,
+  clampServerSettings,
+  endpointSchema,
+  migrateServerSettings,
+  resolveEndpoint,
+} from "@/lib/endpoints"
+import { generateReply } from "@/lib/generate-reply"
+import { mergeConversations, parseConversationsFile } from "@/lib/import"
+import {
+  EMPTY_TREE,
+  addMessage,
+  deleteMessage,
+  getPath,
+  getPathMessages,
+  getSiblingIds,
+  selectSibling,
+  setMessage,
+} from "@/lib/message-tree"
+import { BUILT_IN_PRESETS, parseSavedPresets, type Preset } from "@/lib/presets"
+import { createProvider, type LLMProvider, type ModelInfo } from "@/lib/providers"
+import type { SearchResult } from "@/lib/search"
+import { generateTitle, truncateTitle } from "@/lib/titles"
+import { createTabChannel, type TabChannel, type TabMessage } from "@/lib/tab-sync"
+import {
+  StorageQuotaError,
+  createConversationStore,
+  deleteLegacyConversation,
+  migrateFromLocalStorage,
+  uploadBrowserConversations,
+  type ConversationBatch,
+  type QuarantinedConversation,
+} from "@/lib/storage"
+import {
+  DEFAULT_SERVER_SETTINGS,
+  type Conversation,
+  type Folder,
+  type Message,
+  type ModelRef,
+  type SamplingParameters,
+  type ServerSettings,
+} from "@/lib/types"
+import { generateId } from "@/lib/utils"
+
+// How often a reply that is still being streamed is saved and sent to other tabs
+const STREAM_SAVE_INTERVAL_MS = 2000
 
 export default function EnhancedChatInterface() {
   // State for the current conversation
   const [currentConversation, setCurrentConversation] = useState<Conversation>({
     id: generateId(),
     title: "New Conversation",
-    messages: [],
+    ...EMPTY_TREE,
     model: "",
+    systemPrompt: "",
+    parameters: {},
     timestamp: Date.now(),
   })
 
@@ -42,32 +118,82 @@ export default function EnhancedChatInterface() {
   // UI state
   const [input, setInput] = useState("")
   const [isLoading, setIsLoading] = useState(false)
-  const [models, setModels] = useState<string[]>([])
+  // Shown in place of "Thinking..." while a failed request is retried or handed to the fallback model
+  const [retryStatus, setRetryStatus] = useState<string | null>(null)
+  // Models offered by each endpoint, keyed by endpoint id
+  const [models, setModels] = useState<Record<string, ModelInfo[]>>({})
   const [isDarkMode, setIsDarkMode] = useState(false)
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
   const [isSidebarOpen, setIsSidebarOpen] = useState(false)
   const [isSettingsOpen, setIsSettingsOpen] = useState(false)
+  const [isSystemPromptOpen, setIsSystemPromptOpen] = useState(false)
+  const [isPresetManagerOpen, setIsPresetManagerOpen] = useState(false)
 
   // Server settings
-  const [serverSettings, setServerSettings] = useState<ServerSettings>({
-    host: "localhost",
-    port: "1234",
-  })
+  const [serverSettings, setServerSettings] = useState<ServerSettings>(DEFAULT_SERVER_SETTINGS)
 
   // Temporary settings (for editing)
-  const [tempSettings, setTempSettings] = useState<ServerSettings>({
-    host: "localhost",
-    port: "1234",
-  })
-
-  const messagesEndRef = useRef<HTMLDivElement>(null)
-
-  // Helper function to generate a unique ID
-  function generateId() {
-    return Math.random().toString(36).substring(2, 15)
-  }
-
-  // Initialize from localStorage
+  const [tempSettings, setTempSettings] = useState<ServerSettings>(DEFAULT_SERVER_SETTINGS)
+  // Conversations are only loaded once the saved settings say where they're kept
+  const [isSettingsLoaded, setIsSettingsLoaded] = useState(false)
+
+  // Conversations are saved through this store. The ref holds the versions last written, so that
+  // only conversations that changed are saved again; it's null while conversations are being loaded.
+  const conversationStore = useMemo(() => createConversationStore(serverSettings.storage), [serverSettings.storage])
+  const savedConversationsRef = useRef<Map<string, Conversation> | null>(null)
+  // Only one save is in flight at a time; changes made meanwhile go into the next one
+  const isSavingRef = useRef(false)
+  const hasPendingSaveRef = useRef(false)
+  // A reply being streamed is saved at most every STREAM_SAVE_INTERVAL_MS, and in full once it ends
+  const streamSavedAtRef = useRef(0)
+  const streamSaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const saveConversationsRef = useRef<() => void>(() => {})
+  // Lets a load ignore its result when a newer one was started in the meantime
+  const loadIdRef = useRef(0)
+  const [storageError, setStorageError] = useState<string | null>(null)
+  const [isUploading, setIsUploading] = useState(false)
+  const [uploadStatus, setUploadStatus] = useState<string | null>(null)
+  // Saved conversations that failed to load. They stay in storage until recovered or deleted.
+  const [quarantined, setQuarantined] = useState<QuarantinedConversation[]>([])
+  const [isQuarantineOpen, setIsQuarantineOpen] = useState(false)
+  const [importStatus, setImportStatus] = useState<string | null>(null)
+
+  // Full-text search, from the sidebar and from the Ctrl+K palette
+  const searchConversations = useConversationSearch(conversations)
+  const [sidebarQuery, setSidebarQuery] = useState("")
+  const sidebarResults = useMemo(() => searchConversations(sidebarQuery), [searchConversations, sidebarQuery])
+  const [isSearchOpen, setIsSearchOpen] = useState(false)
+  // Message to scroll to and briefly highlight after opening a search result
+  const [highlight, setHighlight] = useState<{ nodeId: string } | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const [isArchivedView, setIsArchivedView] = useState(false)
+  // Conversations checked in the sidebar's multi-select mode, null when not selecting
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null)
+
+  // System prompt that new conversations start with
+  const [defaultSystemPrompt, setDefaultSystemPrompt] = useState("")
+  const [tempDefaultSystemPrompt, setTempDefaultSystemPrompt] = useState("")
+
+  // Named bundles of model, system prompt and sampling parameters
+  const [presets, setPresets] = useState<Preset[]>(BUILT_IN_PRESETS)
+
+  // Sidebar folders; conversations refer to them by id
+  const [folders, setFolders] = useState<Folder[]>([])
+
+  // Aborts the in-flight completion when the user hits Stop
+  const abortControllerRef = useRef<AbortController | null>(null)
+  // Conversation this tab is generating a reply in, if any
+  const generatingConversationIdRef = useRef<string | null>(null)
+
+  // Keeps other open tabs up to date; created after mount because BroadcastChannel is browser-only
+  const tabChannelRef = useRef<TabChannel | null>(null)
+  // Conversations another tab is generating a reply in. They're read-only here until it's done,
+  // so that neither tab overwrites the other's changes.
+  const [generatingElsewhere, setGeneratingElsewhere] = useState<Set<string>>(new Set())
+  // Mirrors `conversations` for the tab message handler, which is only created once
+  const conversationsRef = useRef<Conversation[]>([])
+
+  // Initialize from browser storage
   useEffect(() => {
     // Load dark mode preference
     if (window.matchMedia && window.matchMedia("(prefers-color-scheme: dark)").matches) {
@@ -75,45 +201,250 @@ export default function EnhancedChatInterface() {
       document.documentElement.classList.add("dark")
     }
 
-    // Load conversations
-    const savedConversations = localStorage.getItem("conversations")
-    if (savedConversations) {
-      try {
-        const parsed = JSON.parse(savedConversations)
-        setConversations(parsed)
-
-        // If there are saved conversations, load the most recent one
-        if (parsed.length > 0) {
-          setCurrentConversation(parsed[0])
-        }
-      } catch (e) {
-        console.error("Failed to parse saved conversations", e)
-      }
-    }
-
     // Load server settings
     const savedSettings = localStorage.getItem("serverSettings")
     if (savedSettings) {
       try {
-        const parsed = JSON.parse(savedSettings)
+        // Settings saved by older versions may be missing newer fields or use a single server
+        const parsed = migrateServerSettings(JSON.parse(savedSettings))
         setServerSettings(parsed)
         setTempSettings(parsed)
       } catch (e) {
         console.error("Failed to parse saved settings", e)
       }
     }
+    setIsSettingsLoaded(true)
+
+    // Load default system prompt
+    const savedSystemPrompt = localStorage.getItem("defaultSystemPrompt")
+    if (savedSystemPrompt !== null) {
+      setDefaultSystemPrompt(savedSystemPrompt)
+      setTempDefaultSystemPrompt(savedSystemPrompt)
+    }
+
+    // Load presets
+    const savedPresets = localStorage.getItem("presets")
+    if (savedPresets) setPresets(parseSavedPresets(savedPresets))
+
+    // Load folders
+    const savedFolders = localStorage.getItem("folders")
+    if (savedFolders) setFolders(parseSavedFolders(savedFolders))
   }, [])
 
-  // Save conversations to localStorage when they change
   useEffect(() => {
-    localStorage.setItem("conversations", JSON.stringify(conversations))
+    conversationsRef.current = conversations
   }, [conversations])
 
+  // Apply changes made in other tabs. They're already saved, so they're recorded as such.
+  const handleTabMessage = (message: TabMessage) => {
+    switch (message.type) {
+      case "conversation-saved": {
+        const { conversation } = message
+        // This tab's own reply in progress wins; it's saved again with the next chunk anyway
+        if (conversation.id === generatingConversationIdRef.current) return
+
+        savedConversationsRef.current?.set(conversation.id, conversation)
+        setConversations((prev) =>
+          prev.some((c) => c.id === conversation.id)
+            ? prev.map((c) => (c.id === conversation.id ? conversation : c))
+            : [conversation, ...prev],
+        )
+        setCurrentConversation((prev) => (prev.id === conversation.id ? conversation : prev))
+        break
+      }
+
+      case "conversation-deleted": {
+        const { id } = message
+        savedConversationsRef.current?.delete(id)
+        // Move away from the deleted conversation if it's open here
+        const next = conversationsRef.current.find((c) => c.id !== id)
+        setConversations((prev) => prev.filter((c) => c.id !== id))
+        setCurrentConversation((prev) => (prev.id === id && next ? next : prev))
+        break
+      }
+
+      case "settings-changed":
+        setServerSettings(message.settings)
+        setTempSettings(message.settings)
+        break
+
+      case "folders-changed":
+        setFolders(message.folders)
+        break
+
+      case "generation":
+        setGeneratingElsewhere((prev) => {
+          const next = new Set(prev)
+          if (message.active) next.add(message.conversationId)
+          else next.delete(message.conversationId)
+          return next
+        })
+        break
+    }
+  }
+
+  useEffect(() => {
+    const channel = createTabChannel()
+    tabChannelRef.current = channel
+    const unsubscribe = channel.subscribe(handleTabMessage)
+
+    // Release the conversation for other tabs if this one is closed mid-reply
+    const handlePageHide = () => {
+      const conversationId = generatingConversationIdRef.current
+      if (conversationId) channel.post({ type: "generation", conversationId, active: false })
+    }
+    window.addEventListener("pagehide", handlePageHide)
+
+    return () => {
+      window.removeEventListener("pagehide", handlePageHide)
+      unsubscribe()
+      channel.close()
+      tabChannelRef.current = null
+    }
+  }, [])
+
+  // Replace the conversation list with what the current store has saved
+  const loadConversations = () => {
+    const loadId = ++loadIdRef.current
+    savedConversationsRef.current = null
+
+    // Conversations that older versions kept in localStorage are moved into IndexedDB first
+    const migrated: Promise<QuarantinedConversation[]> =
+      serverSettings.storage === "browser"
+        ? migrateFromLocalStorage(conversationStore).catch((e) => {
+            console.error("Failed to migrate conversations from localStorage", e)
+            return []
+          })
+        : Promise.resolve([])
+
+    migrated
+      .then(async (legacyQuarantined) => ({ legacyQuarantined, ...(await conversationStore.list()) }))
+      .then(({ conversations: saved, quarantined, legacyQuarantined }) => {
+        if (loadId !== loadIdRef.current) return
+
+        savedConversationsRef.current = new Map(saved.map((c) => [c.id, c]))
+        setConversations(saved)
+        setQuarantined([...quarantined, ...legacyQuarantined])
+        setStorageError(null)
+
+        // If there are saved conversations, load the most recent one
+        if (saved.length > 0) {
+          setCurrentConversation(saved[0])
+        }
+      })
+      .catch((e) => {
+        if (loadId !== loadIdRef.current) return
+
+        console.error("Failed to load saved conversations", e)
+        setStorageError("Saved conversations couldn't be loaded. New changes won't be saved either.")
+      })
+  }
+
+  // Load conversations on startup and whenever the storage location changes
+  useEffect(() => {
+    if (isSettingsLoaded) loadConversations()
+  }, [conversationStore, isSettingsLoaded])
+
+  // Save conversations that were added, changed or removed since the last save. Everything that
+  // changed is written in a single batch, so bulk actions are saved all or nothing. Batches are
+  // written one after another so that an older one can never land after a newer one.
+  const saveConversations = () => {
+    const saved = savedConversationsRef.current
+    if (!saved) return
+    if (isSavingRef.current) {
+      hasPendingSaveRef.current = true
+      return
+    }
+
+    const handleError = (error: unknown) => {
+      console.error("Failed to save conversations", error)
+      setStorageError(
+        error instanceof StorageQuotaError
+          ? "Browser storage is full, so recent changes weren't saved. Delete conversations you no longer need to make room."
+          : "Recent changes couldn't be saved.",
+      )
+    }
+
+    const conversations = conversationsRef.current
+    const batch: ConversationBatch = { put: [], delete: [] }
+    for (const conversation of conversations) {
+      const previous = saved.get(conversation.id)
+      if (previous === conversation) continue
+
+      // Streaming changes the reply many times a second; save it only now and then until it's done
+      if (conversation.id === generatingConversationIdRef.current) {
+        const wait = streamSavedAtRef.current + STREAM_SAVE_INTERVAL_MS - Date.now()
+        if (wait > 0) {
+          streamSaveTimerRef.current ??= setTimeout(() => {
+            streamSaveTimerRef.current = null
+            saveConversationsRef.current()
+          }, wait)
+          continue
+        }
+        streamSavedAtRef.current = Date.now()
+      }
+      batch.put.push({ conversation, previous })
+    }
+    const ids = new Set(conversations.map((c) => c.id))
+    for (const id of saved.keys()) {
+      if (!ids.has(id)) batch.delete.push(id)
+    }
+    if (batch.put.length === 0 && batch.delete.length === 0) return
+
+    isSavingRef.current = true
+    conversationStore
+      .applyBatch(batch)
+      // Failed writes stay unrecorded, so the next save includes them again
+      .then(() => {
+        for (const { conversation } of batch.put) {
+          saved.set(conversation.id, conversation)
+          tabChannelRef.current?.post({ type: "conversation-saved", conversation })
+        }
+        for (const id of batch.delete) {
+          saved.delete(id)
+          tabChannelRef.current?.post({ type: "conversation-deleted", id })
+        }
+      })
+      .catch(handleError)
+      .finally(() => {
+        isSavingRef.current = false
+        // A failed batch is only retried along with the next change, not in a loop
+        if (hasPendingSaveRef.current) {
+          hasPendingSaveRef.current = false
+          saveConversationsRef.current()
+        }
+      })
+  }
+
+  useEffect(() => {
+    saveConversationsRef.current = saveConversations
+  })
+
+  // Also runs when a reply ends, to save it in full
+  useEffect(() => {
+    saveConversations()
+  }, [conversations, isLoading])
+
   // Save server settings to localStorage when they change
   useEffect(() => {
     localStorage.setItem("serverSettings", JSON.stringify(serverSettings))
   }, [serverSettings])
 
+  // Save default system prompt to localStorage when it changes
+  useEffect(() => {
+    localStorage.setItem("defaultSystemPrompt", defaultSystemPrompt)
+  }, [defaultSystemPrompt])
+
+  // Save presets to localStorage when they change
+  useEffect(() => {
+    localStorage.setItem("presets", JSON.stringify(presets))
+  }, [presets])
+
+  // Save folders to localStorage when they change
+  useEffect(() => {
+    localStorage.setItem("folders", JSON.stringify(folders))
+  }, [folders])
+
   // Toggle dark mode
   const toggleDarkMode = () => {
     setIsDarkMode(!isDarkMode)
@@ -125,8 +456,12 @@ export default function EnhancedChatInterface() {
     const newConversation: Conversation = {
       id: generateId(),
       title: "New Conversation",
-      messages: [],
+      ...EMPTY_TREE,
       model: currentConversation.model, // Keep the same model
+      endpointId: currentConversation.endpointId,
+      systemPrompt: defaultSystemPrompt,
+      parameters: currentConversation.parameters, // Keep the same sampling parameters
+      fallback: currentConversation.fallback,
       timestamp: Date.now(),
     }
 
@@ -146,151 +481,508 @@ export default function EnhancedChatInterface() {
     }
   }
 
-  // Update conversation title based on first message
-  const updateConversationTitle = (messages: Message[]) => {
-    if (messages.length === 2 && currentConversation.title === "New Conversation") {
-      // Use the first user message as the title (truncated)
-      const userMessage = messages[0].content
-      const title = userMessage.length > 30 ? userMessage.substring(0, 30) + "..." : userMessage
+  // Open the conversation of a search result, switching to the branch that contains the matching message
+  const openSearchResult = ({ conversationId, nodeId }: SearchResult) => {
+    const conversation = conversations.find((c) => c.id === conversationId)
+    if (!conversation) return
 
-      const updatedConversation = {
-        ...currentConversation,
-        title,
-      }
+    let target = conversation
+    const isOnVisibleBranch = nodeId === null || getPath(conversation).some((node) => node.id === nodeId)
+    if (!isOnVisibleBranch && !busyConversationIds.has(conversationId)) {
+      target = selectSibling(conversation, nodeId)
+      setConversations((prev) => prev.map((c) => (c.id === conversationId ? target : c)))
+    }
+
+    setCurrentConversation(target)
+    if (nodeId !== null) setHighlight({ nodeId })
+    setIsSidebarOpen(false)
+  }
+
+  // Rename, pin, tag or move a conversation from the sidebar
+  const changeConversation = (id: string, changes: ConversationChanges) => {
+    updateConversation(id, (c) => ({ ...c, ...changes }))
+  }
+
+  const changeFolders = (next: Folder[]) => {
+    setFolders(next)
+    tabChannelRef.current?.post({ type: "folders-changed", folders: next })
+  }
 
-      setCurrentConversation(updatedConversation)
+  // Copy a conversation with all its branches, placed right after the original
+  const duplicateConversation = (id: string) => {
+    const original = conversations.find((c) => c.id === id)
+    if (!original) return
 
-      // Update in the conversations array
-      setConversations((prev) => prev.map((c) => (c.id === currentConversation.id ? updatedConversation : c)))
+    const copy: Conversation = {
+      ...original,
+      id: generateId(),
+      title: `${original.title} (copy)`,
+      pinned: false,
+      timestamp: Date.now(),
     }
+    setConversations((prev) => {
+      const index = prev.findIndex((c) => c.id === id)
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)]
+    })
+    setCurrentConversation(copy)
   }
 
-  // Save settings
-  const saveSettings = () => {
-    setServerSettings(tempSettings)
-    setIsSettingsOpen(false)
-    // Reload models with new settings
-    fetchModels()
-  }
-
-  // Fetch available models
-  const fetchModels = () => {
-    const { host, port } = serverSettings
-    fetch(`http://${host}:${port}/v1/models`)
-      .then((response) => response.json())
-      .then((data) => {
-        const modelIds = data.data.map((item: any) => item.id)
-        setModels(modelIds)
+  // Delete conversations, with a toast to bring them back. Undoing saves them again in full.
+  const deleteConversations = (ids: Set<string>) => {
+    const deleted = conversations.flatMap((conversation, index) =>
+      ids.has(conversation.id) ? [{ conversation, index }] : [],
+    )
+    if (deleted.length === 0) return
+
+    setConversations((prev) => prev.filter((c) => !ids.has(c.id)))
+    if (ids.has(currentConversation.id)) {
+      const next = conversations.find((c) => !ids.has(c.id) && !c.archived)
+      if (next) setCurrentConversation(next)
+      else startNewChat()
+    }
+
+    const restore = () => {
+      setConversations((prev) => {
+        const next = [...prev]
+        for (const { conversation, index } of deleted) {
+          if (!next.some((c) => c.id === conversation.id)) next.splice(index, 0, conversation)
+        }
+        return next
       })
-      .catch((error) => console.error("Error fetching models:", error))
+    }
+    toast({
+      title: deleted.length === 1 ? "Conversation deleted" : `${deleted.length} conversations deleted`,
+      description: deleted.length === 1 ? deleted[0].conversation.title : undefined,
+      action: (
+        <ToastAction altText="Undo delete" onClick={restore}>
+          Undo
+        </ToastAction>
+      ),
+    })
   }
 
-  // Fetch models on component mount and when server settings change
-  useEffect(() => {
-    fetchModels()
-  }, [serverSettings])
+  const deleteConversation = (id: string) => deleteConversations(new Set([id]))
 
-  // Scroll to bottom of messages when new messages are added
-  useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
-  }, [currentConversation.messages])
+  // The checked conversations that can be changed, leaving out ones a reply is being generated in
+  const getSelectedEditableIds = () => new Set([...(selectedIds ?? [])].filter((id) => !busyConversationIds.has(id)))
 
-  const handleSendMessage = async (e?: React.FormEvent) => {
-    if (e) e.preventDefault()
+  // Bulk actions change every selected conversation in one update, so they're saved in one batch
+  const updateSelectedConversations = (update: (conversation: Conversation) => Conversation) => {
+    updateConversations(getSelectedEditableIds(), update)
+    setSelectedIds(null)
+  }
 
-    if (!input.trim() || !currentConversation.model) return
+  const addTagsToSelected = (tags: string[]) => {
+    updateSelectedConversations((c) => ({ ...c, tags: [...new Set([...(c.tags ?? []), ...tags])] }))
+  }
 
-    const userMessage = input
-    const newMessages = [...currentConversation.messages, { role: "user", content: userMessage }]
+  const deleteSelectedConversations = () => {
+    deleteConversations(getSelectedEditableIds())
+    setSelectedIds(null)
+  }
 
-    // Update current conversation
-    const updatedConversation = {
-      ...currentConversation,
-      messages: newMessages,
-      timestamp: Date.now(),
-    }
+  const exportSelectedConversations = () => {
+    downloadAllConversations(conversations.filter((c) => selectedIds?.has(c.id)))
+  }
 
-    setCurrentConversation(updatedConversation)
+  const toggleArchivedView = () => {
+    setIsArchivedView(!isArchivedView)
+    setSelectedIds(null)
+  }
 
-    // Update in conversations array
-    setConversations((prev) => prev.map((c) => (c.id === currentConversation.id ? updatedConversation : c)))
+  // Apply an update to conversations both in the list and, if one is open, in the current view.
+  // Takes an updater so that async work like streaming never writes back a stale copy.
+  const updateConversations = (ids: Set<string>, update: (conversation: Conversation) => Conversation) => {
+    setCurrentConversation((prev) => (ids.has(prev.id) ? update(prev) : prev))
+    setConversations((prev) => prev.map((c) => (ids.has(c.id) ? update(c) : c)))
+  }
 
-    setInput("")
-    setIsLoading(true)
+  const updateConversation = (id: string, update: (conversation: Conversation) => Conversation) => {
+    updateConversations(new Set([id]), update)
+  }
 
+  // The model that writes titles: the one chosen in the settings while its server still exists, else `fallback`
+  const getTitleModel = (fallback: ModelRef) => {
+    const { titleModel } = serverSettings
+    return titleModel && providers[titleModel.endpointId] ? titleModel : fallback
+  }
+
+  // Title a new conversation after its first exchange. The truncated first message is shown right away
+  // and replaced in the background by the model's title, unless the conversation was renamed meanwhile.
+  const updateConversationTitle = (conversation: Conversation, messages: Message[], answeredBy: ModelRef) => {
+    if (messages.length !== 2 || conversation.title !== "New Conversation") return
+
+    const { id } = conversation
+    const truncated = truncateTitle(messages[0].content)
+    updateConversation(id, (c) => (c.title === "New Conversation" ? { ...c, title: truncated } : c))
+
+    const { endpointId, model } = getTitleModel(answeredBy)
+    generateTitle(providers[endpointId], model, messages)
+      .then((title) => updateConversation(id, (c) => (c.title === truncated ? { ...c, title } : c)))
+      .catch((error) => console.error("Failed to generate a title, keeping the truncated one:", error))
+  }
+
+  // Replace a conversation's title with a new one written from the first messages of its visible branch
+  const regenerateTitle = async (id: string) => {
+    const conversation = conversations.find((c) => c.id === id)
+    const messages = conversation ? getPathMessages(conversation).filter((message) => !message.error) : []
+    if (!conversation || messages.length === 0) return
+
+    const { endpointId, model } = getTitleModel({ endpointId: getEndpoint(conversation).id, model: conversation.model })
     try {
-      const { host, port } = serverSettings
-      const response = await fetch(`http://${host}:${port}/v1/chat/completions`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: currentConversation.model,
-          messages: [{ role: "user", content: userMessage }],
-        }),
+      const title = await generateTitle(providers[endpointId], model, messages)
+      updateConversation(id, (c) => ({ ...c, title }))
+    } catch (error) {
+      console.error("Failed to generate a title:", error)
+      toast({
+        variant: "destructive",
+        title: "Couldn't generate a title",
+        description: error instanceof Error ? error.message : String(error),
       })
+    }
+  }
 
-      const data = await response.json()
-      const aiResponse = data?.choices?.[0]?.message?.content || "No response from AI"
+  // Copy this browser's conversations to the server, and show them right away if the server is in use
+  const uploadToServer = async () => {
+    setIsUploading(true)
+    setUploadStatus(null)
+    try {
+      const count = await uploadBrowserConversations()
+      setUploadStatus(`Uploaded ${count} ${count === 1 ? "conversation" : "conversations"}.`)
+      if (serverSettings.storage === "server") loadConversations()
+    } catch (e) {
+      console.error("Failed to upload conversations", e)
+      setUploadStatus(`Upload failed: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setIsUploading(false)
+    }
+  }
 
-      const finalMessages = [...newMessages, { role: "assistant", content: aiResponse }]
+  // Unreadable entries left in localStorage by versions before IndexedDB aren't in the store
+  const removeQuarantined = async (item: QuarantinedConversation) => {
+    if (item.legacy) deleteLegacyConversation(item)
+    else await conversationStore.delete(item.id)
+  }
 
-      // Update current conversation with AI response
-      const finalConversation = {
-        ...currentConversation,
-        messages: finalMessages,
-        timestamp: Date.now(),
-      }
+  // Replace an unreadable conversation with the messages that could be salvaged from it
+  const recoverQuarantined = async (item: QuarantinedConversation, conversation: Conversation) => {
+    try {
+      // Remove the damaged records first so none of them are left next to the recovered messages
+      await removeQuarantined(item)
+    } catch (e) {
+      console.error("Failed to replace unreadable conversation", e)
+      setStorageError("The unreadable conversation couldn't be replaced.")
+      return
+    }
+    setQuarantined((prev) => prev.filter((q) => q !== item))
+    setConversations((prev) => [conversation, ...prev])
+    setCurrentConversation(conversation)
+  }
 
-      setCurrentConversation(finalConversation)
+  const deleteQuarantined = async (item: QuarantinedConversation) => {
+    try {
+      await removeQuarantined(item)
+      setQuarantined((prev) => prev.filter((q) => q !== item))
+    } catch (e) {
+      console.error("Failed to delete unreadable conversation", e)
+      setStorageError("The unreadable conversation couldn't be deleted.")
+    }
+  }
 
-      // Update in conversations array
-      setConversations((prev) => prev.map((c) => (c.id === currentConversation.id ? finalConversation : c)))
+  // Add conversations from an export of this app, ChatGPT or Open WebUI
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
 
-      // Update title if this is the first message exchange
-      updateConversationTitle(finalMessages)
+    try {
+      const { conversations: imported, failed } = parseConversationsFile(await file.text())
+      const { conversations: merged, added, updated, skipped } = mergeConversations(conversationsRef.current, imported)
+      setConversations(merged)
+      // The open conversation may have been replaced by a newer imported copy
+      const open = merged.find((c) => c.id === currentConversation.id)
+      if (open) setCurrentConversation(open)
+
+      const parts = [`Imported ${added} ${added === 1 ? "conversation" : "conversations"}`]
+      if (updated > 0) parts.push(`updated ${updated}`)
+      if (skipped > 0) parts.push(`${skipped} already imported`)
+      if (failed > 0) parts.push(`${failed} couldn't be read`)
+      setImportStatus(`${parts.join(", ")}.`)
     } catch (error) {
-      console.error("Error:", error)
-
-      const errorMessages = [
-        ...newMessages,
-        { role: "assistant", content: "Sorry, there was an error processing your request." },
-      ]
-
-      // Update with error message
-      const errorConversation = {
-        ...currentConversation,
-        messages: errorMessages,
-        timestamp: Date.now(),
+      setImportStatus(error instanceof Error ? error.message : "Failed to import conversations")
+    }
+  }
+
+  // Save settings
+  const saveSettings = () => {
+    // An endpoint without a host couldn't be read back after a reload
+    const invalidEndpoint = tempSettings.endpoints.find((endpoint) => !endpointSchema.safeParse(endpoint).success)
+    if (invalidEndpoint) {
+      toast({
+        variant: "destructive",
+        title: "Couldn't save settings",
+        description: `The endpoint "${invalidEndpoint.name}" needs a host.`,
+      })
+      return
+    }
+
+    const settings = clampServerSettings(tempSettings)
+    setServerSettings(settings)
+    setTempSettings(settings)
+    tabChannelRef.current?.post({ type: "settings-changed", settings })
+    setDefaultSystemPrompt(tempDefaultSystemPrompt)
+    setIsSettingsOpen(false)
+    // Models are reloaded by the effect below once the new providers are created
+  }
+
+  // The UI only talks to the servers through this interface, one provider per endpoint
+  const providers = useMemo(() => {
+    const byEndpoint: Record<string, LLMProvider> = {}
+    for (const endpoint of serverSettings.endpoints) byEndpoint[endpoint.id] = createProvider(endpoint)
+    return byEndpoint
+  }, [serverSettings.endpoints])
+
+  // The endpoint a conversation talks to; conversations from before endpoints existed use the first one
+  const getEndpoint = (conversation: Conversation) => resolveEndpoint(serverSettings.endpoints, conversation.endpointId)
+
+  // Fetch the models of one endpoint. Failures are surfaced by the health check's banner.
+  const fetchEndpointModels = (endpointId: string) => {
+    providers[endpointId]
+      ?.listModels()
+      .then((endpointModels) => setModels((prev) => ({ ...prev, [endpointId]: endpointModels })))
+      .catch((error) => console.error(`Error fetching models from ${endpointId}:`, error))
+  }
+
+  // Fetch models on component mount and when server settings change
+  useEffect(() => {
+    setModels({})
+    Object.keys(providers).forEach(fetchEndpointModels)
+  }, [providers])
+
+  // Reload an endpoint's models as soon as it's back after being unreachable
+  const { health: endpointHealth, checkNow: checkEndpointHealth } = useEndpointHealth(providers, fetchEndpointModels)
+
+  // Prefer the context length the server reports for the model over the configured fallback
+  const getContextLength = (endpointId: string, model: string) =>
+    models[endpointId]?.find((m) => m.id === model)?.contextLength ?? serverSettings.contextLength
+
+  const currentEndpoint = getEndpoint(currentConversation)
+  const currentEndpointHealth = endpointHealth[currentEndpoint.id]
+
+  // The branch of the conversation that's shown and sent to the model
+  const activePath = useMemo(() => getPath(currentConversation), [currentConversation])
+
+  const activeMessages = useMemo(() => activePath.map((node) => node.message), [activePath])
+
+  // Scroll to a message opened from search. Runs after the message list has scrolled to the bottom.
+  useEffect(() => {
+    if (!highlight) return
+    document.getElementById(`message-${highlight.nodeId}`)?.scrollIntoView({ block: "center" })
+    const timeout = setTimeout(() => setHighlight(null), 2000)
+    return () => clearTimeout(timeout)
+  }, [highlight])
+
+  // Open the palette with Ctrl+K / Cmd+K
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault()
+        setIsSearchOpen((open) => !open)
       }
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [])
+
+  // Which part of the history still fits into the model's context window
+  const contextWindow = useMemo(
+    () =>
+      fitToContextWindow(
+        activePath.map((node) => node.message),
+        getContextLength(currentEndpoint.id, currentConversation.model),
+        {
+          systemPrompt: currentConversation.systemPrompt,
+          reservedTokens: currentConversation.parameters?.max_tokens,
+        },
+      ),
+    [
+      activePath,
+      currentConversation.systemPrompt,
+      currentConversation.parameters?.max_tokens,
+      currentConversation.model,
+      currentConversation.endpointId,
+      models,
+      serverSettings.endpoints,
+      serverSettings.contextLength,
+    ],
+  )
+
+  // Ask the model for a reply to the user message `parentId`. The reply is added as a new child,
+  // so regenerating keeps the previous answers as siblings.
+  const requestReply = async (conversation: Conversation, parentId: string) => {
+    const conversationId = conversation.id
+    // Failed replies stay visible but aren't sent back to the model
+    const history = getPathMessages(conversation, parentId).filter((message) => !message.error)
+    const replyId = generateId()
+
+    // The conversation's own model first, then its fallback if it has one
+    const targets: ModelRef[] = [{ endpointId: getEndpoint(conversation).id, model: conversation.model }]
+    if (conversation.fallback && providers[conversation.fallback.endpointId]) targets.push(conversation.fallback)
+
+    setIsLoading(true)
+
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    generatingConversationIdRef.current = conversationId
+    tabChannelRef.current?.post({ type: "generation", conversationId, active: true })
 
-      setCurrentConversation(errorConversation)
+    try {
+      const { reply, target } = await generateReply({
+        targets,
+        getRequest: (target) => {
+          const maxTokens = conversation.parameters?.max_tokens
+          const fitted = fitToContextWindow(history, getContextLength(target.endpointId, target.model), {
+            systemPrompt: conversation.systemPrompt,
+            reservedTokens: maxTokens,
+          })
+          // Sending an empty prompt would get a reply to nothing
+          if (fitted.overflowed) {
+            throw new Error("The system prompt leaves no room for your message in the context window of this model.")
+          }
+          return {
+            provider: providers[target.endpointId],
+            request: {
+              model: target.model,
+              messages: buildPromptMessages(conversation.systemPrompt, fitted.messages),
+              // The reserve for the reply is capped, so a large max_tokens may not fit next to the prompt
+              parameters:
+                maxTokens === undefined
+                  ? conversation.parameters
+                  : { ...conversation.parameters, max_tokens: Math.min(maxTokens, fitted.replyTokens) },
+            },
+          }
+        },
+        stream: serverSettings.stream,
+        retry: serverSettings.retry,
+        signal: abortController.signal,
+        // Add the reply on the first call and update it in place afterwards
+        onReply: (reply, target) => {
+          const answeredBy = { ...reply, model: target.model, endpointId: target.endpointId }
+          updateConversation(conversationId, (c) => ({
+            ...(c.nodes[replyId] ? setMessage(c, replyId, answeredBy) : addMessage(c, parentId, answeredBy, replyId)),
+            timestamp: Date.now(),
+          }))
+        },
+        onStatus: setRetryStatus,
+        describeTarget: (target) => target.model,
+      })
 
-      // Update in conversations array
-      setConversations((prev) => prev.map((c) => (c.id === currentConversation.id ? errorConversation : c)))
+      // Title the conversation if this is the first message exchange
+      if (!reply.error && !reply.stopped) updateConversationTitle(conversation, [...history, reply], target)
     } finally {
+      abortControllerRef.current = null
+      generatingConversationIdRef.current = null
+      tabChannelRef.current?.post({ type: "generation", conversationId, active: false })
       setIsLoading(false)
     }
   }
 
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === "Enter" && !e.shiftKey) {
-      e.preventDefault()
-      handleSendMessage()
-    }
+  // Whether the open conversation can't be changed right now
+  const isBusy = isLoading || generatingElsewhere.has(currentConversation.id)
+  const activeConversations = conversations.filter((c) => !c.archived)
+  const archivedConversations = conversations.filter((c) => c.archived)
+
+  // Conversations a reply is being generated in, here or in another tab
+  const busyConversationIds = new Set(generatingElsewhere)
+  if (isLoading && generatingConversationIdRef.current) busyConversationIds.add(generatingConversationIdRef.current)
+
+  const handleSendMessage = async () => {
+    if (!input.trim() || !currentConversation.model || isBusy) return
+
+    const content = input
+    setInput("")
+    await sendUserMessage(currentConversation.currentNodeId, content)
   }
 
-  const handleModelChange = (model: string) => {
+  // Add a user message below `parentId` and request the reply to it
+  const sendUserMessage = async (parentId: string | null, content: string) => {
+    const userMessageId = generateId()
     const updatedConversation = {
-      ...currentConversation,
-      model,
+      ...addMessage(currentConversation, parentId, { role: "user", content }, userMessageId),
+      timestamp: Date.now(),
     }
 
-    setCurrentConversation(updatedConversation)
+    updateConversation(currentConversation.id, () => updatedConversation)
+    await requestReply(updatedConversation, userMessageId)
+  }
+
+  // Resend an edited user message as a new branch next to the original
+  const handleEditMessage = (nodeId: string, content: string) => {
+    if (isBusy || !currentConversation.model) return
+
+    sendUserMessage(currentConversation.nodes[nodeId].parentId, content)
+  }
+
+  // Ask for another reply next to the assistant message `nodeId`
+  const handleRegenerateMessage = (nodeId: string) => {
+    const parentId = currentConversation.nodes[nodeId].parentId
+    if (isBusy || !currentConversation.model || !parentId) return
+
+    requestReply(currentConversation, parentId)
+  }
+
+  const handleDeleteMessage = (nodeId: string) => {
+    if (isBusy) return
+
+    updateConversation(currentConversation.id, (c) => ({ ...deleteMessage(c, nodeId), timestamp: Date.now() }))
+  }
+
+  // Switch the visible branch to a different alternative of a message
+  const handleSelectSibling = (siblingId: string) => {
+    if (isBusy) return
+
+    updateConversation(currentConversation.id, (c) => selectSibling(c, siblingId))
+  }
+
+  // Stop the reply that's currently being generated
+  const stopGenerating = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  const handleModelChange = (value: ModelRef | undefined) => {
+    updateConversation(currentConversation.id, (c) => ({
+      ...c,
+      model: value?.model ?? "",
+      endpointId: value?.endpointId,
+    }))
+  }
 
-    // Update in conversations array
-    setConversations((prev) => prev.map((c) => (c.id === currentConversation.id ? updatedConversation : c)))
+  const handleFallbackChange = (fallback: ModelRef | undefined) => {
+    updateConversation(currentConversation.id, (c) => ({ ...c, fallback }))
+  }
+
+  const handleSystemPromptChange = (systemPrompt: string) => {
+    updateConversation(currentConversation.id, (c) => ({ ...c, systemPrompt }))
+  }
+
+  const handleParametersChange = (parameters: SamplingParameters) => {
+    updateConversation(currentConversation.id, (c) => ({ ...c, parameters }))
+  }
+
+  // Apply a preset to the open conversation; presets without a model keep the current one.
+  // The model is looked up on the current endpoint first, then on the others.
+  const applyPreset = (preset: Preset) => {
+    const endpointId = preset.model
+      ? [currentEndpoint.id, ...Object.keys(models)].find((id) => models[id]?.some((m) => m.id === preset.model))
+      : undefined
+
+    updateConversation(currentConversation.id, (c) => ({
+      ...c,
+      model: preset.model || c.model,
+      endpointId: endpointId ?? c.endpointId,
+      systemPrompt: preset.systemPrompt,
+      parameters: preset.parameters,
+    }))
   }
 
   // Simple function to format code blocks in markdown
@@ -330,21 +1022,106 @@ export default function EnhancedChatInterface() {
             <span>New Chat</span>
           </button>
 
-          <div className="space-y-1 max-h-[calc(100vh-180px)] overflow-y-auto">
-            {conversations.map((conversation) => (
+          <div className="relative mb-2">
+            <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="search"
+              value={sidebarQuery}
+              onChange={(e) => setSidebarQuery(e.target.value)}
+              onKeyDown={(e) => e.key === "Escape" && setSidebarQuery("")}
+              placeholder="Search messages"
+              aria-label="Search messages"
+              className="w-full py-1.5 pl-8 pr-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            />
+          </div>
+
+          {!sidebarQuery.trim() &&
+            (selectedIds ? (
+              <ConversationBulkActions
+                selectedCount={selectedIds.size}
+                folders={folders}
+                isArchivedView={isArchivedView}
+                onArchive={(archived) => updateSelectedConversations((c) => ({ ...c, archived }))}
+                onMove={(folderId) => updateSelectedConversations((c) => ({ ...c, folderId }))}
+                onAddTags={addTagsToSelected}
+                onExport={exportSelectedConversations}
+                onDelete={deleteSelectedConversations}
+                onDone={() => setSelectedIds(null)}
+              />
+            ) : (
+              <div className="flex items-center justify-between mb-2">
+                {isArchivedView || archivedConversations.length > 0 ? (
+                  <button
+                    onClick={toggleArchivedView}
+                    className="flex items-center gap-1 p-1 rounded-md text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  >
+                    {isArchivedView ? <ArrowLeft className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                    <span>{isArchivedView ? "Back" : `Archived (${archivedConversations.length})`}</span>
+                  </button>
+                ) : (
+                  <span />
+                )}
+                <button
+                  onClick={() => setSelectedIds(new Set())}
+                  className="flex items-center gap-1 p-1 rounded-md text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  <ListChecks className="h-4 w-4" />
+                  <span>Select</span>
+                </button>
+              </div>
+            ))}
+
+          <div className="max-h-[calc(100vh-360px)] overflow-y-auto">
+            {sidebarQuery.trim() ? (
+              <SearchResultList results={sidebarResults} onSelect={openSearchResult} />
+            ) : isArchivedView ? (
+              <ArchivedConversationList
+                conversations={archivedConversations}
+                currentId={currentConversation.id}
+                busyIds={busyConversationIds}
+                selectedIds={selectedIds}
+                onSelectionChange={setSelectedIds}
+                onSelect={switchConversation}
+                onRestore={(id) => changeConversation(id, { archived: false })}
+                onDelete={deleteConversation}
+              />
+            ) : (
+              <ConversationList
+                conversations={activeConversations}
+                folders={folders}
+                currentId={currentConversation.id}
+                busyIds={busyConversationIds}
+                selectedIds={selectedIds}
+                onSelectionChange={setSelectedIds}
+                onSelect={switchConversation}
+                onUpdate={changeConversation}
+                onDuplicate={duplicateConversation}
+                onRegenerateTitle={regenerateTitle}
+                onDelete={deleteConversation}
+                onFoldersChange={changeFolders}
+              />
+            )}
+          </div>
+
+          <div className="mt-4 space-y-1">
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="flex items-center gap-2 w-full p-2 rounded-md text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <Upload className="h-4 w-4" />
+              <span>Import...</span>
+            </button>
+            <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImport} hidden />
+            {conversations.length > 0 && (
               <button
-                key={conversation.id}
-                onClick={() => switchConversation(conversation.id)}
-                className={`flex items-center gap-2 w-full p-2 rounded-md text-left ${
-                  currentConversation.id === conversation.id
-                    ? "bg-gray-200 dark:bg-gray-700"
-                    : "hover:bg-gray-100 dark:hover:bg-gray-700"
-                }`}
+                onClick={() => downloadAllConversations(conversations)}
+                className="flex items-center gap-2 w-full p-2 rounded-md text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
               >
-                <MessageSquare className="h-4 w-4 flex-shrink-0 text-gray-700 dark:text-gray-300" />
-                <span className="truncate text-gray-900 dark:text-white">{conversation.title}</span>
+                <Download className="h-4 w-4" />
+                <span>Export all (.zip)</span>
               </button>
-            ))}
+            )}
+            {importStatus && <p className="px-2 text-xs text-gray-500 dark:text-gray-400">{importStatus}</p>}
           </div>
         </div>
       </div>
@@ -365,6 +1142,7 @@ export default function EnhancedChatInterface() {
 
               <Bot className="h-6 w-6 text-blue-600 dark:text-blue-400" />
               <h1 className="font-bold text-xl text-gray-900 dark:text-white">AI Chat Interface</h1>
+              <ConnectionBadge endpoint={currentEndpoint} health={currentEndpointHealth} />
             </div>
 
             <div className="flex items-center gap-2">
@@ -378,6 +1156,24 @@ export default function EnhancedChatInterface() {
 
               {/* Desktop controls */}
               <div className="hidden md:flex items-center gap-2">
+                <button
+                  onClick={() => setIsSearchOpen(true)}
+                  className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300"
+                  aria-label="Search conversations"
+                  title="Search conversations (Ctrl+K)"
+                >
+                  <Search className="h-5 w-5" />
+                </button>
+
+                <ExportMenu conversation={currentConversation}>
+                  <button
+                    className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300"
+                    aria-label="Export conversation"
+                  >
+                    <Download className="h-5 w-5" />
+                  </button>
+                </ExportMenu>
+
                 <button
                   onClick={() => setIsSettingsOpen(true)}
                   className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300"
@@ -408,6 +1204,13 @@ export default function EnhancedChatInterface() {
           {/* Mobile menu */}
           {isMobileMenuOpen && (
             <div className="md:hidden border-t border-gray-200 dark:border-gray-700 p-4 bg-white dark:bg-gray-800 space-y-2">
+              <ExportMenu conversation={currentConversation} align="start">
+                <button className="flex items-center gap-2 w-full p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300">
+                  <Download className="h-5 w-5" />
+                  <span>Export</span>
+                </button>
+              </ExportMenu>
+
               <button
                 onClick={() => {
                   setIsSettingsOpen(true)
@@ -439,104 +1242,240 @@ export default function EnhancedChatInterface() {
 
           {/* Model selector */}
           <div className="p-4 border-t border-gray-200 dark:border-gray-700">
-            <select
-              value={currentConversation.model}
-              onChange={(e) => handleModelChange(e.target.value)}
-              className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
-            >
-              <option value="">Select a model</option>
-              {models.map((model) => (
-                <option key={model} value={model}>
-                  {model}
-                </option>
-              ))}
-            </select>
+            <div className="flex gap-2">
+              <ModelSelect
+                endpoints={serverSettings.endpoints}
+                models={models}
+                value={{ endpointId: currentEndpoint.id, model: currentConversation.model }}
+                onChange={handleModelChange}
+                placeholder="Select a model"
+                aria-label="Model"
+                className="flex-1 min-w-0 p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+              />
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <button
+                    className="flex items-center gap-1 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300"
+                    aria-label="Presets"
+                  >
+                    <Bookmark className="h-5 w-5" />
+                    <span className="hidden sm:inline">Presets</span>
+                    <ChevronDown className="h-4 w-4" />
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-56">
+                  <DropdownMenuLabel>Apply preset</DropdownMenuLabel>
+                  {presets.map((preset) => (
+                    <DropdownMenuItem key={preset.id} onSelect={() => applyPreset(preset)}>
+                      <span className="truncate">{preset.name}</span>
+                      {preset.model && (
+                        <span className="ml-auto pl-2 text-xs text-muted-foreground truncate">{preset.model}</span>
+                      )}
+                    </DropdownMenuItem>
+                  ))}
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onSelect={() => setIsPresetManagerOpen(true)}>Manage presets...</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+
+              <button
+                onClick={() => setIsSystemPromptOpen(!isSystemPromptOpen)}
+                className={`flex items-center gap-1 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 ${
+                  currentConversation.systemPrompt?.trim()
+                    ? "text-blue-600 dark:text-blue-400"
+                    : "text-gray-700 dark:text-gray-300"
+                }`}
+                aria-label="System prompt"
+                aria-expanded={isSystemPromptOpen}
+              >
+                <ScrollText className="h-5 w-5" />
+                <span className="hidden sm:inline">System Prompt</span>
+              </button>
+            </div>
+
+            {/* System prompt editor */}
+            {isSystemPromptOpen && (
+              <textarea
+                value={currentConversation.systemPrompt ?? ""}
+                onChange={(e) => handleSystemPromptChange(e.target.value)}
+                placeholder="Instructions for the assistant in this conversation, e.g. You are a concise coding assistant."
+                rows={3}
+                className="w-full mt-2 p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm"
+              />
+            )}
+
+            <div className="flex items-center gap-2 mt-2">
+              <label className="text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">Fallback model</label>
+              <ModelSelect
+                endpoints={serverSettings.endpoints}
+                models={models}
+                value={currentConversation.fallback}
+                onChange={handleFallbackChange}
+                placeholder="None"
+                aria-label="Fallback model"
+                className="flex-1 min-w-0 p-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+              />
+            </div>
+
+            <SamplingParametersPanel
+              parameters={currentConversation.parameters ?? {}}
+              onChange={handleParametersChange}
+            />
           </div>
         </header>
 
+        {storageError && (
+          <div className="flex items-start gap-3 p-3 border-b border-amber-200 dark:border-amber-900 bg-amber-50 dark:bg-amber-950 text-sm text-amber-800 dark:text-amber-200">
+            <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+            <p className="flex-1 min-w-0">{storageError}</p>
+            <button
+              onClick={() => setStorageError(null)}
+              className="p-1 rounded-md hover:bg-amber-100 dark:hover:bg-amber-900"
+              aria-label="Dismiss"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+
+        {quarantined.length > 0 && (
+          <div className="flex items-center gap-3 p-3 border-b border-amber-200 dark:border-amber-900 bg-amber-50 dark:bg-amber-950 text-sm text-amber-800 dark:text-amber-200">
+            <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+            <p className="flex-1 min-w-0">
+              {quarantined.length === 1
+                ? "1 saved conversation couldn't be read."
+                : `${quarantined.length} saved conversations couldn't be read.`}
+            </p>
+            <button
+              onClick={() => setIsQuarantineOpen(true)}
+              className="px-2 py-1 rounded-md border border-amber-300 dark:border-amber-800 hover:bg-amber-100 dark:hover:bg-amber-900"
+            >
+              Review
+            </button>
+          </div>
+        )}
+
+        {currentEndpointHealth?.ok === false && (
+          <ConnectionBanner
+            endpoint={currentEndpoint}
+            health={currentEndpointHealth}
+            onRetry={checkEndpointHealth}
+            onOpenSettings={() => setIsSettingsOpen(true)}
+          />
+        )}
+
         {/* Messages area */}
-        <div className="flex-1 overflow-y-auto p-4 bg-gray-50 dark:bg-gray-900">
-          <div className="max-w-3xl mx-auto space-y-4">
-            {currentConversation.messages.length === 0 ? (
-              <div className="flex flex-col items-center justify-center h-full text-gray-500 dark:text-gray-400 mt-20">
-                <Bot className="h-12 w-12 mb-4" />
-                <p className="text-lg">Select a model and start chatting</p>
-                <p className="text-sm mt-2">Your messages will appear here</p>
-              </div>
-            ) : (
-              currentConversation.messages.map((message, index) => (
-                <div key={index} className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}>
-                  <div
-                    className={`flex items-start gap-2 max-w-[85%] ${
-                      message.role === "user" ? "flex-row-reverse" : "flex-row"
-                    }`}
-                  >
-                    <div
-                      className={`flex-shrink-0 rounded-full p-2 ${
-                        message.role === "user" ? "bg-blue-600 text-white" : "bg-gray-200 dark:bg-gray-700"
-                      }`}
-                    >
-                      {message.role === "user" ? <User className="h-4 w-4" /> : <Bot className="h-4 w-4" />}
-                    </div>
-                    <div
-                      className={`p-3 rounded-lg ${
-                        message.role === "user"
-                          ? "bg-blue-600 text-white"
-                          : "bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100"
-                      }`}
-                    >
-                      {message.role === "user" ? (
-                        <div className="whitespace-pre-wrap">{message.content}</div>
-                      ) : (
-                        <div className="markdown-content">
-                          <ReactMarkdown remarkPlugins={[remarkGfm]}>{message.content}</ReactMarkdown>
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                </div>
-              ))
-            )}
-            {isLoading && (
-              <div className="flex justify-start">
-                <div className="flex items-start gap-2 max-w-[85%]">
-                  <div className="flex-shrink-0 rounded-full p-2 bg-gray-200 dark:bg-gray-700">
-                    <Bot className="h-4 w-4" />
-                  </div>
-                  <div className="p-3 rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100 flex items-center">
-                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                    Thinking...
+        <ChatMessageList
+          messages={activeMessages}
+          className="flex-1 bg-gray-50 dark:bg-gray-900"
+          placeholder={
+            <div className="flex flex-col items-center justify-center h-full text-gray-500 dark:text-gray-400 mt-20">
+              <Bot className="h-12 w-12 mb-4" />
+              <p className="text-lg">Select a model and start chatting</p>
+              <p className="text-sm mt-2">Your messages will appear here</p>
+            </div>
+          }
+          // Shown until the first streamed token replaces it with the actual reply
+          pendingStatus={
+            isLoading && (retryStatus || activePath[activePath.length - 1]?.message.role === "user")
+              ? (retryStatus ?? "Thinking...")
+              : null
+          }
+          renderMessage={(_, index) => {
+            const node = activePath[index]
+            return (
+              <div
+                key={node.id}
+                id={`message-${node.id}`}
+                className={`rounded-lg transition-shadow ${
+                  highlight?.nodeId === node.id ? "ring-2 ring-blue-500 ring-offset-4 dark:ring-offset-gray-900" : ""
+                }`}
+              >
+                {/* Marks where the prompt starts once older turns no longer fit */}
+                {index === contextWindow.firstIncludedIndex && index > 0 && (
+                  <div className="flex items-center gap-2 mb-4 text-xs text-gray-500 dark:text-gray-400">
+                    <div className="flex-1 border-t border-dashed border-gray-300 dark:border-gray-600" />
+                    <span>
+                      {index} earlier {index === 1 ? "message is" : "messages are"} outside the context window and
+                      won&apos;t be sent
+                    </span>
+                    <div className="flex-1 border-t border-dashed border-gray-300 dark:border-gray-600" />
                   </div>
-                </div>
+                )}
+                <ChatMessage
+                  message={node.message}
+                  siblingIds={getSiblingIds(currentConversation, node.id)}
+                  nodeId={node.id}
+                  isExcluded={index < contextWindow.firstIncludedIndex}
+                  disabled={isBusy}
+                  onEdit={(content) => handleEditMessage(node.id, content)}
+                  onRegenerate={() => handleRegenerateMessage(node.id)}
+                  onDelete={() => handleDeleteMessage(node.id)}
+                  onSelectSibling={handleSelectSibling}
+                />
               </div>
-            )}
-            <div ref={messagesEndRef} />
-          </div>
-        </div>
+            )
+          }}
+        />
 
         {/* Input area */}
         <div className="border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4">
-          <form onSubmit={handleSendMessage} className="max-w-3xl mx-auto flex gap-2">
-            <input
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder="Type your message..."
-              disabled={isLoading || !currentConversation.model}
-              className="flex-1 p-3 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
-            />
-            <button
-              type="submit"
-              disabled={isLoading || !input.trim() || !currentConversation.model}
-              className="p-3 bg-blue-600 hover:bg-blue-700 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {isLoading ? <Loader2 className="h-5 w-5 animate-spin" /> : <Send className="h-5 w-5" />}
-              <span className="sr-only">Send</span>
-            </button>
-          </form>
+          {!isLoading && generatingElsewhere.has(currentConversation.id) && (
+            <p className="max-w-3xl mx-auto mb-2 flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+              <Loader2 className="h-4 w-4 animate-spin" />A reply is being generated in another tab.
+            </p>
+          )}
+          {contextWindow.truncated && (
+            <p className="max-w-3xl mx-auto mb-2 flex items-center gap-2 text-sm text-amber-700 dark:text-amber-400">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              {contextWindow.overflowed
+                ? "The system prompt leaves no room for messages in this model's context window."
+                : "The latest message is longer than the context window, so only its end is sent."}
+            </p>
+          )}
+          <ChatComposer
+            value={input}
+            onChange={setInput}
+            onSubmit={handleSendMessage}
+            isGenerating={isLoading}
+            onStop={stopGenerating}
+            disabled={isBusy || !currentConversation.model}
+            className="max-w-3xl mx-auto"
+          />
         </div>
       </div>
 
+      {/* Preset Manager */}
+      {isPresetManagerOpen && (
+        <PresetManager
+          presets={presets}
+          current={{
+            model: currentConversation.model,
+            systemPrompt: currentConversation.systemPrompt ?? "",
+            parameters: currentConversation.parameters ?? {},
+          }}
+          onChange={setPresets}
+          onClose={() => setIsPresetManagerOpen(false)}
+        />
+      )}
+
+      <SearchPalette
+        open={isSearchOpen}
+        onOpenChange={setIsSearchOpen}
+        search={searchConversations}
+        onSelect={openSearchResult}
+      />
+
+      {isQuarantineOpen && (
+        <QuarantineDialog
+          quarantined={quarantined}
+          onRecover={recoverQuarantined}
+          onDelete={deleteQuarantined}
+          onClose={() => setIsQuarantineOpen(false)}
+        />
+      )}
+
       {/* Settings Modal */}
       {isSettingsOpen && (
         <div className="fixed inset-0 z-30 flex items-center justify-center bg-black bg-opacity-50">
@@ -551,26 +1490,143 @@ export default function EnhancedChatInterface() {
               </button>
             </div>
 
-            <div className="p-4 space-y-4">
+            <div className="p-4 space-y-4 max-h-[70vh] overflow-y-auto">
               <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Server Host</label>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Servers</label>
+                <EndpointEditor
+                  endpoints={tempSettings.endpoints}
+                  onChange={(endpoints) => setTempSettings({ ...tempSettings, endpoints })}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Context Length (tokens)
+                </label>
                 <input
-                  type="text"
-                  value={tempSettings.host}
-                  onChange={(e) => setTempSettings({ ...tempSettings, host: e.target.value })}
+                  type="number"
+                  min={MIN_CONTEXT_LENGTH}
+                  value={tempSettings.contextLength}
+                  onChange={(e) => setTempSettings({ ...tempSettings, contextLength: Number(e.target.value) })}
                   className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
                 />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Older messages are left out of the prompt once the conversation grows past this.
+                </p>
               </div>
 
               <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Server Port</label>
-                <input
-                  type="text"
-                  value={tempSettings.port}
-                  onChange={(e) => setTempSettings({ ...tempSettings, port: e.target.value })}
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Default System Prompt
+                </label>
+                <textarea
+                  value={tempDefaultSystemPrompt}
+                  onChange={(e) => setTempDefaultSystemPrompt(e.target.value)}
+                  rows={3}
                   className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
                 />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  New chats start with this system prompt.
+                </p>
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Title Model</label>
+                <ModelSelect
+                  endpoints={tempSettings.endpoints}
+                  models={models}
+                  value={tempSettings.titleModel}
+                  onChange={(titleModel) => setTempSettings({ ...tempSettings, titleModel })}
+                  placeholder="The conversation's model"
+                  aria-label="Title model"
+                  className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Writes a short title after the first reply. A small, fast model is enough.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Conversation Storage
+                </label>
+                <select
+                  value={tempSettings.storage}
+                  onChange={(e) =>
+                    setTempSettings({ ...tempSettings, storage: e.target.value as ServerSettings["storage"] })
+                  }
+                  className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                >
+                  <option value="browser">This browser</option>
+                  <option value="server">Server (shared SQLite database)</option>
+                </select>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Server storage keeps one history for every browser that uses this app.
+                </p>
+                {tempSettings.storage === "server" && (
+                  <>
+                    <button
+                      onClick={uploadToServer}
+                      disabled={isUploading}
+                      className="flex items-center gap-1 mt-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                      Upload conversations from this browser
+                    </button>
+                    {uploadStatus && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{uploadStatus}</p>}
+                  </>
+                )}
+              </div>
+
+              <div className="flex gap-2">
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Retries</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_RETRIES}
+                    value={tempSettings.retry.maxRetries}
+                    onChange={(e) =>
+                      setTempSettings({
+                        ...tempSettings,
+                        retry: { ...tempSettings.retry, maxRetries: Number(e.target.value) },
+                      })
+                    }
+                    className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                  />
+                </div>
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    First retry after (ms)
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={100}
+                    value={tempSettings.retry.baseDelayMs}
+                    onChange={(e) =>
+                      setTempSettings({
+                        ...tempSettings,
+                        retry: { ...tempSettings.retry, baseDelayMs: Number(e.target.value) },
+                      })
+                    }
+                    className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 -mt-2">
+                Network errors, 429 and 5xx responses are retried with growing, randomized delays.
+              </p>
+
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={tempSettings.stream}
+                  onChange={(e) => setTempSettings({ ...tempSettings, stream: e.target.checked })}
+                  className="h-4 w-4"
+                />
+                Stream responses
+              </label>
             </div>
 
             <div className="flex justify-end p-4 border-t border-gray-200 dark:border-gray-700">
@@ -594,4 +1650,3 @@ export default function EnhancedChatInterface() {
     </div>
   )
 }
-
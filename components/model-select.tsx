@@ -0,0 +1,57 @@
+"use client"
+
+import type { ModelInfo } from "@/lib/providers"
+import type { Endpoint, ModelRef } from "@/lib/types"
+
+interface ModelSelectProps {
+  endpoints: Endpoint[]
+  // Models offered by each endpoint, keyed by endpoint id
+  models: Record<string, ModelInfo[]>
+  value?: ModelRef
+  onChange: (value: ModelRef | undefined) => void
+  // Label of the empty option
+  placeholder: string
+  className?: string
+  "aria-label"?: string
+}
+
+// Native select listing the models of all endpoints, grouped by endpoint
+export function ModelSelect({
+  endpoints,
+  models,
+  value,
+  onChange,
+  placeholder,
+  className,
+  ...props
+}: ModelSelectProps) {
+  // Option values are "<endpoint id>/<model id>"; model ids may contain slashes themselves
+  const handleChange = (optionValue: string) => {
+    const separator = optionValue.indexOf("/")
+    onChange(
+      separator === -1
+        ? undefined
+        : { endpointId: optionValue.slice(0, separator), model: optionValue.slice(separator + 1) },
+    )
+  }
+
+  return (
+    <select
+      value={value?.model ? `${value.endpointId}/${value.model}` : ""}
+      onChange={(e) => handleChange(e.target.value)}
+      className={className}
+      aria-label={props["aria-label"]}
+    >
+      <option value="">{placeholder}</option>
+      {endpoints.map((endpoint) => (
+        <optgroup key={endpoint.id} label={endpoint.name}>
+          {(models[endpoint.id] ?? []).map((model) => (
+            <option key={model.id} value={`${endpoint.id}/${model.id}`}>
+              {model.id}
+            </option>
+          ))}
+        </optgroup>
+      ))}
+    </select>
+  )
+}
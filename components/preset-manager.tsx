@@ -0,0 +1,165 @@
+"use client"
+
+import type React from "react"
+
+import { useRef, useState } from "react"
+import { Copy, Download, Plus, Trash2, Upload, X } from "lucide-react"
+import { downloadFile } from "@/lib/download"
+import { exportPresets, mergePresets, parsePresetsFile, type Preset } from "@/lib/presets"
+import { generateId } from "@/lib/utils"
+
+interface PresetManagerProps {
+  presets: Preset[]
+  // Values of the open conversation, used for "save current as preset"
+  current: Omit<Preset, "id" | "name">
+  onChange: (presets: Preset[]) => void
+  onClose: () => void
+}
+
+export function PresetManager({ presets, current, onChange, onClose }: PresetManagerProps) {
+  const [newPresetName, setNewPresetName] = useState("")
+  const [importError, setImportError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const createPreset = () => {
+    const name = newPresetName.trim()
+    if (!name) return
+    onChange([...presets, { ...current, id: generateId(), name }])
+    setNewPresetName("")
+  }
+
+  const renamePreset = (id: string, name: string) => {
+    onChange(presets.map((p) => (p.id === id ? { ...p, name } : p)))
+  }
+
+  const duplicatePreset = (preset: Preset) => {
+    const index = presets.findIndex((p) => p.id === preset.id)
+    const copy = { ...preset, id: generateId(), name: `${preset.name} (copy)` }
+    onChange([...presets.slice(0, index + 1), copy, ...presets.slice(index + 1)])
+  }
+
+  const deletePreset = (id: string) => {
+    onChange(presets.filter((p) => p.id !== id))
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+
+    try {
+      onChange(mergePresets(presets, parsePresetsFile(await file.text())))
+      setImportError(null)
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : "Failed to import presets")
+    }
+  }
+
+  const handleExport = () => {
+    downloadFile("presets.json", exportPresets(presets), "application/json")
+  }
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-black bg-opacity-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg max-w-lg w-full mx-4 flex flex-col max-h-[90vh]">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="font-bold text-lg text-gray-900 dark:text-white">Presets</h2>
+          <button onClick={onClose} className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700">
+            <X className="h-5 w-5 text-gray-700 dark:text-gray-300" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          {/* Save the open conversation's settings */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Save current settings as preset
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newPresetName}
+                onChange={(e) => setNewPresetName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && createPreset()}
+                placeholder="Preset name"
+                className="flex-1 p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+              />
+              <button
+                onClick={createPreset}
+                disabled={!newPresetName.trim()}
+                className="flex items-center gap-1 px-3 py-2 rounded-md bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Plus className="h-4 w-4" />
+                Save
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {presets.length === 0 && <p className="text-sm text-gray-500 dark:text-gray-400">No presets yet.</p>}
+            {presets.map((preset) => (
+              <div
+                key={preset.id}
+                className="flex items-center gap-2 p-2 rounded-md border border-gray-200 dark:border-gray-700"
+              >
+                <div className="flex-1 min-w-0">
+                  <input
+                    type="text"
+                    value={preset.name}
+                    onChange={(e) => renamePreset(preset.id, e.target.value)}
+                    aria-label="Preset name"
+                    className="w-full p-1 rounded-md bg-transparent text-gray-900 dark:text-white font-medium hover:bg-gray-100 dark:hover:bg-gray-700 focus:bg-white dark:focus:bg-gray-700"
+                  />
+                  <p className="px-1 text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {preset.model || "Any model"} · {Object.keys(preset.parameters).length} parameters
+                    {preset.systemPrompt ? " · system prompt" : ""}
+                  </p>
+                </div>
+                <button
+                  onClick={() => duplicatePreset(preset)}
+                  className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300"
+                  aria-label={`Duplicate ${preset.name}`}
+                >
+                  <Copy className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => deletePreset(preset.id)}
+                  className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 text-red-600 dark:text-red-400"
+                  aria-label={`Delete ${preset.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {importError && <p className="text-sm text-red-600 dark:text-red-400">{importError}</p>}
+        </div>
+
+        <div className="flex justify-between p-4 border-t border-gray-200 dark:border-gray-700">
+          <div className="flex gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <Upload className="h-4 w-4" />
+              Import
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={presets.length === 0}
+              className="flex items-center gap-1 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              <Download className="h-4 w-4" />
+              Export
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} hidden />
+          </div>
+          <button onClick={onClose} className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 text-white">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+"use client"
+
+import { Download, LifeBuoy, Trash2, X } from "lucide-react"
+import { downloadFile } from "@/lib/download"
+import { recoverConversation, type QuarantinedConversation } from "@/lib/storage"
+import type { Conversation } from "@/lib/types"
+
+interface QuarantineDialogProps {
+  quarantined: QuarantinedConversation[]
+  onRecover: (item: QuarantinedConversation, conversation: Conversation) => void
+  onDelete: (item: QuarantinedConversation) => void
+  onClose: () => void
+}
+
+// Lists saved conversations that couldn't be read, with ways to salvage or discard them
+export function QuarantineDialog({ quarantined, onRecover, onDelete, onClose }: QuarantineDialogProps) {
+  const handleDownload = (item: QuarantinedConversation) => {
+    downloadFile(`conversation-${item.id || "unreadable"}.json`, JSON.stringify(item.data, null, 2), "application/json")
+  }
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-black bg-opacity-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg max-w-lg w-full mx-4 flex flex-col max-h-[90vh]">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="font-bold text-lg text-gray-900 dark:text-white">Unreadable Conversations</h2>
+          <button onClick={onClose} className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700">
+            <X className="h-5 w-5 text-gray-700 dark:text-gray-300" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 overflow-y-auto">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            These conversations are still saved, but their data is damaged or from a newer version of the app.
+            Recovering keeps every message that can still be read, in order, as a single branch.
+          </p>
+
+          {quarantined.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Nothing left to review.</p>
+          )}
+
+          {quarantined.map((item) => {
+            const recovered = recoverConversation(item)
+            return (
+              <div
+                key={item.id}
+                className="flex items-start gap-2 p-3 rounded-md border border-gray-200 dark:border-gray-700"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-900 dark:text-gray-100 truncate">{item.title}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 break-words">{item.error}</p>
+                </div>
+                <button
+                  onClick={() => recovered && onRecover(item, recovered)}
+                  disabled={!recovered}
+                  className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title={recovered ? "Recover readable messages" : "No readable messages to recover"}
+                  aria-label={`Recover ${item.title}`}
+                >
+                  <LifeBuoy className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => handleDownload(item)}
+                  className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300"
+                  title="Download the raw data"
+                  aria-label={`Download ${item.title}`}
+                >
+                  <Download className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => onDelete(item)}
+                  className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 text-red-600 dark:text-red-400"
+                  title="Delete permanently"
+                  aria-label={`Delete ${item.title}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,172 @@
+"use client"
+
+import { useState } from "react"
+import { ChevronDown, SlidersHorizontal, X } from "lucide-react"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import type { SamplingParameters } from "@/lib/types"
+
+type SliderParameter = "temperature" | "top_p" | "frequency_penalty" | "presence_penalty"
+type NumberParameter = "top_k" | "max_tokens" | "seed"
+
+// Each parameter can be switched off to fall back to the server's default.
+// The default values below are only what a parameter starts at once it's switched on.
+const SLIDER_PARAMETERS: {
+  key: SliderParameter
+  label: string
+  min: number
+  max: number
+  step: number
+  initial: number
+}[] = [
+  { key: "temperature", label: "Temperature", min: 0, max: 2, step: 0.05, initial: 0.7 },
+  { key: "top_p", label: "Top P", min: 0, max: 1, step: 0.01, initial: 0.95 },
+  { key: "frequency_penalty", label: "Frequency Penalty", min: -2, max: 2, step: 0.1, initial: 0 },
+  { key: "presence_penalty", label: "Presence Penalty", min: -2, max: 2, step: 0.1, initial: 0 },
+]
+
+const NUMBER_PARAMETERS: { key: NumberParameter; label: string; min: number; initial: number }[] = [
+  { key: "top_k", label: "Top K", min: 1, initial: 40 },
+  { key: "max_tokens", label: "Max Tokens", min: 1, initial: 1024 },
+  { key: "seed", label: "Seed", min: 0, initial: 42 },
+]
+
+interface SamplingParametersPanelProps {
+  parameters: SamplingParameters
+  onChange: (parameters: SamplingParameters) => void
+}
+
+export function SamplingParametersPanel({ parameters, onChange }: SamplingParametersPanelProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [stopInput, setStopInput] = useState("")
+
+  const setParameter = <K extends keyof SamplingParameters>(key: K, value: SamplingParameters[K] | undefined) => {
+    const next = { ...parameters }
+    if (value === undefined) {
+      delete next[key]
+    } else {
+      next[key] = value
+    }
+    onChange(next)
+  }
+
+  const addStopSequence = () => {
+    // Escapes let users enter sequences like "\n\n" that can't be typed into a single-line input
+    const sequence = stopInput.replace(/\\n/g, "\n").replace(/\\t/g, "\t")
+    if (!sequence || parameters.stop?.includes(sequence)) return
+    setParameter("stop", [...(parameters.stop ?? []), sequence])
+    setStopInput("")
+  }
+
+  const removeStopSequence = (sequence: string) => {
+    const stop = (parameters.stop ?? []).filter((s) => s !== sequence)
+    setParameter("stop", stop.length > 0 ? stop : undefined)
+  }
+
+  const activeCount = Object.keys(parameters).length
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="mt-2">
+      <CollapsibleTrigger className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">
+        <SlidersHorizontal className="h-4 w-4" />
+        <span>Parameters{activeCount > 0 ? ` (${activeCount} set)` : ""}</span>
+        <ChevronDown className={`h-4 w-4 transition-transform ${isOpen ? "rotate-180" : ""}`} />
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-4 text-gray-900 dark:text-gray-100">
+        {SLIDER_PARAMETERS.map(({ key, label, min, max, step, initial }) => {
+          const value = parameters[key]
+          return (
+            <div key={key} className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`param-${key}`}
+                    checked={value !== undefined}
+                    onCheckedChange={(checked) => setParameter(key, checked ? initial : undefined)}
+                  />
+                  <Label htmlFor={`param-${key}`}>{label}</Label>
+                </div>
+                <span className="text-xs tabular-nums text-gray-500 dark:text-gray-400">
+                  {value !== undefined ? value : "Server default"}
+                </span>
+              </div>
+              <Slider
+                min={min}
+                max={max}
+                step={step}
+                value={[value ?? initial]}
+                onValueChange={([v]) => setParameter(key, v)}
+                disabled={value === undefined}
+              />
+            </div>
+          )
+        })}
+
+        {NUMBER_PARAMETERS.map(({ key, label, min, initial }) => {
+          const value = parameters[key]
+          return (
+            <div key={key} className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id={`param-${key}`}
+                  checked={value !== undefined}
+                  onCheckedChange={(checked) => setParameter(key, checked ? initial : undefined)}
+                />
+                <Label htmlFor={`param-${key}`}>{label}</Label>
+              </div>
+              <Input
+                type="number"
+                min={min}
+                step={1}
+                value={value ?? ""}
+                placeholder="Server default"
+                onChange={(e) => {
+                  const parsed = Number.parseInt(e.target.value, 10)
+                  if (!Number.isNaN(parsed)) setParameter(key, Math.max(parsed, min))
+                }}
+                disabled={value === undefined}
+                className="h-9"
+              />
+            </div>
+          )
+        })}
+
+        <div className="space-y-2 sm:col-span-2">
+          <Label htmlFor="param-stop">Stop Sequences</Label>
+          <Input
+            id="param-stop"
+            value={stopInput}
+            onChange={(e) => setStopInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault()
+                addStopSequence()
+              }
+            }}
+            placeholder='Press Enter to add, e.g. "###" or "\n\n"'
+            className="h-9"
+          />
+          {parameters.stop && parameters.stop.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {parameters.stop.map((sequence) => (
+                <span
+                  key={sequence}
+                  className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-gray-200 dark:bg-gray-700 text-xs font-mono"
+                >
+                  {JSON.stringify(sequence)}
+                  <button onClick={() => removeStopSequence(sequence)} aria-label={`Remove stop sequence ${sequence}`}>
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
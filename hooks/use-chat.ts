@@ -0,0 +1,71 @@
+import { useRef, useState } from "react"
+import { buildPromptMessages } from "@/lib/context-window"
+import { generateReply } from "@/lib/generate-reply"
+import type { LLMProvider } from "@/lib/providers"
+import type { Message, SamplingParameters } from "@/lib/types"
+
+interface UseChatOptions {
+  provider: LLMProvider
+  model: string
+  systemPrompt?: string
+  parameters?: SamplingParameters
+  // Show the reply token by token instead of waiting for the full completion; on by default
+  stream?: boolean
+}
+
+// A single linear conversation held in memory: no branches, nothing saved. Replies that fail stay
+// in the list with their error but aren't sent back to the model.
+export function useChat({ provider, model, systemPrompt, parameters, stream = true }: UseChatOptions) {
+  const [messages, setMessages] = useState<Message[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  // Send a user message and wait for the reply to it
+  const send = async (content: string) => {
+    if (isLoading || !content.trim() || !model) return
+
+    const history: Message[] = [...messages.filter((message) => !message.error), { role: "user", content }]
+    const replyIndex = messages.length + 1
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+
+    // Add the reply on the first call and update it in place afterwards, unless the chat was cleared
+    const setReply = (reply: Message) => {
+      if (abortControllerRef.current !== abortController) return
+      setMessages((prev) => [...prev.slice(0, replyIndex), { ...reply, model }])
+    }
+
+    setMessages((prev) => [...prev, { role: "user", content }])
+    setIsLoading(true)
+
+    try {
+      await generateReply({
+        targets: [model],
+        getRequest: () => ({
+          provider,
+          request: { model, messages: buildPromptMessages(systemPrompt, history), parameters },
+        }),
+        stream,
+        signal: abortController.signal,
+        onReply: setReply,
+      })
+    } finally {
+      if (abortControllerRef.current === abortController) abortControllerRef.current = null
+      setIsLoading(false)
+    }
+  }
+
+  // Stop the reply that's currently being generated
+  const stop = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  // Start over, stopping a reply in progress
+  const clear = () => {
+    stop()
+    abortControllerRef.current = null
+    setMessages([])
+  }
+
+  return { messages, isLoading, send, stop, clear }
+}
@@ -0,0 +1,20 @@
+import { useCallback, useMemo } from "react"
+import { createSearchIndex } from "@/lib/search"
+import type { Conversation } from "@/lib/types"
+
+// Full-text search over `conversations`. The index is brought up to date on each search, which
+// re-indexes only the messages that changed, so a streaming reply isn't re-indexed per token
+// unless a search is showing.
+export function useConversationSearch(conversations: Conversation[]) {
+  const index = useMemo(() => createSearchIndex(), [])
+
+  // Changes identity with `conversations`, so results computed from it refresh as messages arrive
+  return useCallback(
+    (query: string, limit?: number) => {
+      if (!query.trim()) return []
+      index.update(conversations)
+      return index.search(query, limit)
+    },
+    [index, conversations],
+  )
+}
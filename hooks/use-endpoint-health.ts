@@ -0,0 +1,63 @@
+import { useEffect, useRef, useState } from "react"
+import type { HealthResult, LLMProvider } from "@/lib/providers"
+
+// How often every endpoint is checked
+const POLL_INTERVAL_MS = 15_000
+
+// Endpoints that take longer than this to answer are shown as slow
+const SLOW_LATENCY_MS = 2_000
+
+export type EndpointStatus = "checking" | "online" | "slow" | "offline"
+
+export function getEndpointStatus(health: HealthResult | undefined): EndpointStatus {
+  if (!health) return "checking"
+  if (!health.ok) return "offline"
+  return health.latencyMs > SLOW_LATENCY_MS ? "slow" : "online"
+}
+
+// Polls the health of every endpoint in the background, keyed by endpoint id.
+// `onRecover` is called when an endpoint that was failing answers again.
+export function useEndpointHealth(providers: Record<string, LLMProvider>, onRecover: (endpointId: string) => void) {
+  const [health, setHealth] = useState<Record<string, HealthResult>>({})
+  const onRecoverRef = useRef(onRecover)
+  const checkAllRef = useRef<() => void>(() => {})
+
+  useEffect(() => {
+    onRecoverRef.current = onRecover
+  }, [onRecover])
+
+  useEffect(() => {
+    let cancelled = false
+    const previous: Record<string, HealthResult> = {}
+
+    const checkAll = () => {
+      for (const [endpointId, provider] of Object.entries(providers)) {
+        provider.health().then((result) => {
+          if (cancelled) return
+          if (previous[endpointId]?.ok === false && result.ok) onRecoverRef.current(endpointId)
+          previous[endpointId] = result
+          setHealth((prev) => ({ ...prev, [endpointId]: result }))
+        })
+      }
+    }
+
+    setHealth({})
+    checkAll()
+    checkAllRef.current = checkAll
+
+    // Don't poll from tabs nobody is looking at
+    const interval = setInterval(() => {
+      if (!document.hidden) checkAll()
+    }, POLL_INTERVAL_MS)
+
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [providers])
+
+  // Check all endpoints right away, e.g. from a "Retry" button
+  const checkNow = () => checkAllRef.current()
+
+  return { health, checkNow }
+}
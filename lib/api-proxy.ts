@@ -0,0 +1,99 @@
+import { z } from "zod"
+import { endpointSchema, getEndpointUrl } from "@/lib/endpoints"
+import { createDirectProvider, type LLMProvider } from "@/lib/providers"
+import { HttpError } from "@/lib/providers/http"
+import { DEFAULT_ENDPOINT, type Endpoint } from "@/lib/types"
+
+// Server-side helpers for the /api routes that forward requests to an LLM server on the browser's behalf
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+// Every proxy request names the endpoint it's meant for
+export const proxyRequestSchema = z.object({ endpoint: endpointSchema })
+
+const toOrigin = (url: string) => {
+  try {
+    return new URL(url).origin
+  } catch {
+    return undefined
+  }
+}
+
+// Servers the proxy may talk to, set as a comma-separated list of origins, e.g.
+// PROXY_ALLOWED_ORIGINS="http://localhost:1234,https://llm.example.com". Without it only the default
+// endpoint is allowed, so the routes can't be used to reach arbitrary hosts from this server.
+function getAllowedOrigins() {
+  const configured = process.env.PROXY_ALLOWED_ORIGINS?.split(",") ?? [getEndpointUrl(DEFAULT_ENDPOINT)]
+  return new Set(configured.map((url) => toOrigin(url.trim())).filter((origin) => origin !== undefined))
+}
+
+// The origin is taken from the URL requests will actually go to, so odd hosts or base paths can't sneak past
+function isAllowedEndpoint(endpoint: Endpoint) {
+  const origin = toOrigin(getEndpointUrl(endpoint))
+  return origin !== undefined && getAllowedOrigins().has(origin)
+}
+
+// Validate the request body, then run `handle` with a provider that calls the endpoint directly.
+// Invalid bodies are answered with 400 and endpoints outside the allowed origins with 403. Error
+// statuses from the LLM server are passed on, other failures talking to it become 502.
+export async function handleProxyRequest<T extends typeof proxyRequestSchema>(
+  request: Request,
+  schema: T,
+  handle: (body: z.infer<T>, provider: LLMProvider) => Promise<Response>,
+) {
+  const parsed = schema.safeParse(await request.json().catch(() => undefined))
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return Response.json(
+      { error: `Invalid request: ${issue.path.join(".") || "body"}: ${issue.message}` },
+      { status: 400 },
+    )
+  }
+
+  if (!isAllowedEndpoint(parsed.data.endpoint)) {
+    const url = getEndpointUrl(parsed.data.endpoint)
+    return Response.json(
+      { error: `This server isn't allowed to proxy requests to ${url}. Add its origin to PROXY_ALLOWED_ORIGINS.` },
+      { status: 403 },
+    )
+  }
+
+  try {
+    return await handle(parsed.data, createDirectProvider(parsed.data.endpoint))
+  } catch (error) {
+    return Response.json({ error: errorMessage(error) }, { status: error instanceof HttpError ? error.status : 502 })
+  }
+}
+
+// Stream chunks as newline-delimited JSON. The first chunk is awaited before responding so that
+// connection errors still produce an error status; later errors are sent as a final { error } line.
+export async function streamJsonLines<T>(chunks: AsyncGenerator<T>) {
+  const encoder = new TextEncoder()
+  const encode = (value: unknown) => encoder.encode(JSON.stringify(value) + "\n")
+  let pending: IteratorResult<T> | undefined = await chunks.next()
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const result = pending ?? (await chunks.next())
+        pending = undefined
+        if (result.done) {
+          controller.close()
+        } else {
+          controller.enqueue(encode(result.value))
+        }
+      } catch (error) {
+        controller.enqueue(encode({ error: errorMessage(error) }))
+        controller.close()
+      }
+    },
+
+    async cancel() {
+      await chunks.return(undefined)
+    },
+  })
+
+  return new Response(body, {
+    headers: { "Content-Type": "application/x-ndjson", "Cache-Control": "no-cache" },
+  })
+}
@@ -0,0 +1,122 @@
+import type { ChatMessage, Message } from "@/lib/types"
+
+// Tokens kept free for the model's reply when no max_tokens is set
+export const DEFAULT_RESPONSE_RESERVE = 512
+
+// Chat templates add a few tokens of role markup around every message
+const MESSAGE_OVERHEAD_TOKENS = 4
+
+export interface ContextWindow {
+  // Messages that fit, in order, ready to send
+  messages: Message[]
+  // Index of the first history message that made it into the prompt
+  firstIncludedIndex: number
+  // True when the newest message itself had to be cut down to fit
+  truncated: boolean
+  // True when not even part of the newest message fits next to the system prompt; nothing should be sent
+  overflowed: boolean
+  tokenCount: number
+  // What's left of the context length for the reply, at least the reserve unless it overflowed.
+  // A larger max_tokens makes servers like vLLM reject the request as too long.
+  replyTokens: number
+}
+
+// Rough token estimate. The OpenAI-style API doesn't expose the model's tokenizer,
+// and ~4 characters per token is close enough for English text and code.
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4)
+}
+
+export function estimateMessageTokens(message: Message) {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS
+}
+
+interface ContextWindowOptions {
+  // Always sent, so it's taken off the budget before any history
+  systemPrompt?: string
+  // Tokens kept free for the reply, at most half the context length
+  reservedTokens?: number
+}
+
+// Drop the oldest turns until the history fits into the context length, keeping room for the reply
+export function fitToContextWindow(
+  messages: Message[],
+  contextLength: number,
+  { systemPrompt = "", reservedTokens = DEFAULT_RESPONSE_RESERVE }: ContextWindowOptions = {},
+): ContextWindow {
+  const systemTokens = systemPrompt.trim() ? estimateTokens(systemPrompt) + MESSAGE_OVERHEAD_TOKENS : 0
+  // A max_tokens close to the context length would otherwise leave no room for the prompt at all
+  const reserve = Math.min(reservedTokens, Math.floor(contextLength / 2))
+  const budget = Math.max(contextLength - reserve - systemTokens, 0)
+
+  const replyTokens = (tokenCount: number) => Math.max(contextLength - systemTokens - tokenCount, 0)
+
+  if (messages.length === 0) {
+    return {
+      messages: [],
+      firstIncludedIndex: 0,
+      truncated: false,
+      overflowed: false,
+      tokenCount: 0,
+      replyTokens: replyTokens(0),
+    }
+  }
+
+  // Walk backwards from the newest message and keep whatever still fits
+  let tokenCount = 0
+  let firstIncludedIndex = messages.length
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const tokens = estimateMessageTokens(messages[i])
+    if (tokenCount + tokens > budget) break
+    tokenCount += tokens
+    firstIncludedIndex = i
+  }
+
+  // The newest message alone is too long: keep its tail so the latest instructions survive
+  if (firstIncludedIndex === messages.length) {
+    const last = messages[messages.length - 1]
+    const maxChars = Math.max((budget - MESSAGE_OVERHEAD_TOKENS) * 4, 0)
+    if (maxChars === 0) {
+      return {
+        messages: [],
+        firstIncludedIndex: messages.length,
+        truncated: true,
+        overflowed: true,
+        tokenCount: 0,
+        replyTokens: 0,
+      }
+    }
+
+    const content = last.content.slice(last.content.length - maxChars)
+    const tokenCount = estimateMessageTokens({ ...last, content })
+    return {
+      messages: [{ ...last, content }],
+      firstIncludedIndex: messages.length - 1,
+      truncated: true,
+      overflowed: false,
+      tokenCount,
+      replyTokens: replyTokens(tokenCount),
+    }
+  }
+
+  // Don't start the prompt halfway through a turn with an orphaned assistant reply
+  while (firstIncludedIndex < messages.length - 1 && messages[firstIncludedIndex].role === "assistant") {
+    tokenCount -= estimateMessageTokens(messages[firstIncludedIndex])
+    firstIncludedIndex++
+  }
+
+  return {
+    messages: messages.slice(firstIncludedIndex),
+    firstIncludedIndex,
+    truncated: false,
+    overflowed: false,
+    tokenCount,
+    replyTokens: replyTokens(tokenCount),
+  }
+}
+
+// The messages array for the request: the system prompt (if any) followed by the history
+export function buildPromptMessages(systemPrompt: string | undefined, messages: Message[]): ChatMessage[] {
+  const history = messages.map(({ role, content }) => ({ role, content }))
+  return systemPrompt?.trim() ? [{ role: "system", content: systemPrompt }, ...history] : history
+}
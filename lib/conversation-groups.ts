@@ -0,0 +1,68 @@
+import { differenceInCalendarDays } from "date-fns"
+import { z } from "zod"
+import type { Conversation, Folder } from "@/lib/types"
+
+// Sections of the sidebar for conversations that aren't in a folder
+export type DateGroup = "Today" | "Yesterday" | "Previous 7 days" | "Older"
+
+const DATE_GROUPS: DateGroup[] = ["Today", "Yesterday", "Previous 7 days", "Older"]
+
+export function getDateGroup(timestamp: number, now = Date.now()): DateGroup {
+  const days = differenceInCalendarDays(now, timestamp)
+  if (days <= 0) return "Today"
+  if (days === 1) return "Yesterday"
+  if (days <= 7) return "Previous 7 days"
+  return "Older"
+}
+
+// Most recently updated first
+export function sortByTimestamp(conversations: Conversation[]) {
+  return [...conversations].sort((a, b) => b.timestamp - a.timestamp)
+}
+
+// Non-empty date groups in order, each sorted by timestamp
+export function groupByDate(conversations: Conversation[], now = Date.now()) {
+  return DATE_GROUPS.map((label) => ({
+    label,
+    conversations: sortByTimestamp(conversations.filter((c) => getDateGroup(c.timestamp, now) === label)),
+  })).filter((group) => group.conversations.length > 0)
+}
+
+export interface ConversationFilter {
+  tag?: string
+  model?: string
+}
+
+export function filterConversations(conversations: Conversation[], { tag, model }: ConversationFilter) {
+  return conversations.filter((c) => (!tag || c.tags?.includes(tag)) && (!model || c.model === model))
+}
+
+// Every tag and model in use, for the filter menus
+export function getFilterOptions(conversations: Conversation[]) {
+  const tags = new Set<string>()
+  const models = new Set<string>()
+  for (const conversation of conversations) {
+    for (const tag of conversation.tags ?? []) tags.add(tag)
+    if (conversation.model) models.add(conversation.model)
+  }
+  return { tags: [...tags].sort(), models: [...models].sort() }
+}
+
+// Tags typed as a comma-separated list, e.g. "work, #rust, ideas"
+export function parseTags(text: string) {
+  const tags = text.split(",").map((tag) => tag.trim().replace(/^#/, ""))
+  return [...new Set(tags.filter(Boolean))]
+}
+
+const savedFoldersSchema = z.array(z.object({ id: z.string().min(1), name: z.string() }))
+
+// Read the folders saved in localStorage; none if they can't be read. Conversations in a folder that's
+// gone simply show up in the date groups again.
+export function parseSavedFolders(text: string): Folder[] {
+  try {
+    const result = savedFoldersSchema.safeParse(JSON.parse(text))
+    return result.success ? result.data : []
+  } catch {
+    return []
+  }
+}
@@ -0,0 +1,99 @@
+import { z } from "zod"
+import { DEFAULT_ENDPOINT, DEFAULT_SERVER_SETTINGS, type Endpoint, type ServerSettings } from "@/lib/types"
+
+// Validates endpoints sent by the browser to the proxy routes
+export const endpointSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  provider: z.enum(["openai", "ollama", "llamacpp"]),
+  scheme: z.enum(["http", "https"]),
+  host: z.string().min(1),
+  port: z.string(),
+  basePath: z.string(),
+  apiKey: z.string().optional(),
+  mode: z.enum(["direct", "proxy"]),
+})
+
+// Limits of the number inputs in the settings dialog
+export const MIN_CONTEXT_LENGTH = 256
+export const MAX_RETRIES = 10
+
+// Root URL that API paths like /v1/models are appended to
+export function getEndpointUrl({ scheme, host, port, basePath }: Endpoint) {
+  const path = basePath.trim().replace(/\/+$/, "")
+  return `${scheme}://${host}${port ? `:${port}` : ""}${path && !path.startsWith("/") ? "/" : ""}${path}`
+}
+
+// Find the endpoint a conversation is bound to, falling back to the first one
+export function resolveEndpoint(endpoints: Endpoint[], endpointId?: string) {
+  return endpoints.find((e) => e.id === endpointId) ?? endpoints[0]
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null
+
+// Server settings as saved in localStorage by any version. Fields added later may be missing, and
+// settings saved before multiple endpoints existed had a single host/port (and provider) at the top level.
+// A field that can't be read falls back to its default on its own, without taking the others with it.
+const savedServerSettingsSchema = z.object({
+  host: z.string().min(1).optional().catch(undefined),
+  port: z.string().optional().catch(undefined),
+  provider: endpointSchema.shape.provider.optional().catch(undefined),
+  // Checked one by one in migrateServerSettings
+  endpoints: z.array(z.unknown()).catch([]),
+  contextLength: z.number().int().positive().catch(DEFAULT_SERVER_SETTINGS.contextLength),
+  stream: z.boolean().catch(DEFAULT_SERVER_SETTINGS.stream),
+  retry: z
+    .object({
+      maxRetries: z.number().int().nonnegative().catch(DEFAULT_SERVER_SETTINGS.retry.maxRetries),
+      baseDelayMs: z.number().nonnegative().catch(DEFAULT_SERVER_SETTINGS.retry.baseDelayMs),
+      maxDelayMs: z.number().nonnegative().catch(DEFAULT_SERVER_SETTINGS.retry.maxDelayMs),
+    })
+    .catch(DEFAULT_SERVER_SETTINGS.retry),
+  storage: z.enum(["browser", "server"]).catch(DEFAULT_SERVER_SETTINGS.storage),
+  titleModel: z.object({ endpointId: z.string(), model: z.string() }).optional().catch(undefined),
+})
+
+// Bring saved settings up to date. Invalid fields get their defaults and invalid endpoints are dropped.
+export function migrateServerSettings(saved: unknown): ServerSettings {
+  const { host, port, provider, endpoints, ...rest } = savedServerSettingsSchema.parse(isRecord(saved) ? saved : {})
+
+  // Endpoints saved before newer fields like `mode` existed get their defaults
+  const validEndpoints = endpoints.flatMap((endpoint) => {
+    const parsed = endpointSchema.safeParse(isRecord(endpoint) ? { ...DEFAULT_ENDPOINT, ...endpoint } : endpoint)
+    if (!parsed.success) console.warn("Ignoring invalid saved endpoint", endpoint, parsed.error.issues[0])
+    return parsed.success ? [parsed.data] : []
+  })
+
+  return {
+    ...rest,
+    endpoints:
+      validEndpoints.length > 0
+        ? validEndpoints
+        : [
+            {
+              ...DEFAULT_ENDPOINT,
+              ...(host && { host }),
+              ...(port && { port }),
+              ...(provider && { provider }),
+            },
+          ],
+  }
+}
+
+// Numbers typed into the settings dialog can be empty, fractional or out of range. Empty ones keep
+// their default, the others are rounded into range.
+export function clampServerSettings(settings: ServerSettings): ServerSettings {
+  const { contextLength, retry } = settings
+  return {
+    ...settings,
+    contextLength:
+      contextLength > 0
+        ? Math.max(MIN_CONTEXT_LENGTH, Math.round(contextLength))
+        : DEFAULT_SERVER_SETTINGS.contextLength,
+    retry: {
+      ...retry,
+      maxRetries: Math.min(MAX_RETRIES, Math.max(0, Math.round(retry.maxRetries || 0))),
+      baseDelayMs: Math.max(0, retry.baseDelayMs || 0),
+    },
+  }
+}
@@ -0,0 +1,78 @@
+import { format } from "date-fns"
+import { strToU8, zipSync } from "fflate"
+import { getPathMessages } from "@/lib/message-tree"
+import { SCHEMA_VERSION } from "@/lib/storage/migrations"
+import type { Conversation } from "@/lib/types"
+
+export type ExportFormat = "markdown" | "json" | "html"
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; type: string }[] = [
+  { format: "markdown", label: "Markdown", extension: "md", type: "text/markdown" },
+  { format: "json", label: "JSON", extension: "json", type: "application/json" },
+  { format: "html", label: "HTML", extension: "html", type: "text/html" },
+]
+
+export function formatTimestamp(timestamp: number) {
+  return format(timestamp, "yyyy-MM-dd HH:mm")
+}
+
+// Every conversation exactly as stored, including all branches, models, parameters and timestamps.
+// `version` is the storage schema version, so that importing can upgrade older files.
+export function exportToJson(conversations: Conversation[]) {
+  return JSON.stringify({ version: SCHEMA_VERSION, exportedAt: new Date().toISOString(), conversations }, null, 2)
+}
+
+// The visible branch of the conversation as a readable document. Message text is copied
+// verbatim, so code fences and other Markdown in it stay intact.
+export function exportToMarkdown(conversation: Conversation) {
+  const sections = [`# ${conversation.title}`]
+
+  const details = [
+    conversation.model && `Model: ${conversation.model}`,
+    `Saved: ${formatTimestamp(conversation.timestamp)}`,
+  ]
+  sections.push(details.filter(Boolean).join(" · "))
+
+  if (conversation.systemPrompt) sections.push(`## System\n\n${conversation.systemPrompt}`)
+
+  for (const message of getPathMessages(conversation)) {
+    const heading = message.role === "user" ? "User" : `Assistant${message.model ? ` (${message.model})` : ""}`
+    const parts = [`## ${heading}`]
+    if (message.content) parts.push(message.content)
+    if (message.error) parts.push(`> **Error:** ${message.error}`)
+    if (message.stopped) parts.push("*Stopped*")
+    sections.push(parts.join("\n\n"))
+  }
+
+  return sections.join("\n\n") + "\n"
+}
+
+// File name without extension, based on the title
+export function getExportName(conversation: Conversation) {
+  const slug = conversation.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60)
+  return slug || "conversation"
+}
+
+// Zip archive of text files, keyed by their path inside the archive
+export function createZip(files: Record<string, string>) {
+  const entries: Record<string, Uint8Array> = {}
+  for (const [path, content] of Object.entries(files)) entries[path] = strToU8(content)
+  return zipSync(entries)
+}
+
+// Export names for several conversations, with an id suffix where titles would collide
+export function getUniqueExportNames(conversations: Conversation[]) {
+  const counts = new Map<string, number>()
+  for (const conversation of conversations) {
+    const name = getExportName(conversation)
+    counts.set(name, (counts.get(name) ?? 0) + 1)
+  }
+  return conversations.map((conversation) => {
+    const name = getExportName(conversation)
+    return counts.get(name)! > 1 ? `${name}-${conversation.id}` : name
+  })
+}
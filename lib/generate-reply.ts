@@ -0,0 +1,110 @@
+import type { ChatRequest, LLMProvider } from "@/lib/providers"
+import { createReplyStats } from "@/lib/reply-stats"
+import { isRetryableError, withRetry } from "@/lib/retry"
+import type { Message, RetryPolicy } from "@/lib/types"
+
+// Getting one assistant reply from a server, shared by the full app and the embeddable widget:
+// streaming or not, retries, switching to fallback models, stats, stopping and errors.
+
+interface GenerateReplyOptions<T> {
+  // Models to ask, in order. The next one is only tried when the previous one failed before any text arrived.
+  targets: T[]
+  // The provider and request for one target. May throw, e.g. when the prompt can't fit, to fail that target.
+  getRequest: (target: T) => { provider: LLMProvider; request: Omit<ChatRequest, "signal"> }
+  stream: boolean
+  // Without a policy every target gets a single attempt
+  retry?: RetryPolicy
+  signal: AbortSignal
+  // Called with the reply so far as it arrives, and once more with the final one
+  onReply: (reply: Message, target: T) => void
+  // Progress worth showing while no text has arrived, e.g. "Retrying (1/3)..."; null clears it
+  onStatus?: (status: string | null) => void
+  // Names a target in status messages
+  describeTarget?: (target: T) => string
+}
+
+// Ask for a reply and report it through `onReply`. Never throws: a stopped reply keeps what arrived
+// and is marked `stopped`, a failed one carries the error. Resolves with the final reply and the
+// target that produced it.
+export async function generateReply<T>({
+  targets,
+  getRequest,
+  stream,
+  retry,
+  signal,
+  onReply,
+  onStatus,
+  describeTarget = String,
+}: GenerateReplyOptions<T>): Promise<{ reply: Message; target: T }> {
+  const stats = createReplyStats()
+  let target = targets[0]
+  let content = ""
+
+  const finish = (reply: Message) => {
+    onReply(reply, target)
+    return { reply, target }
+  }
+
+  // One attempt at getting the whole reply from `target`
+  const generate = async () => {
+    stats.start()
+    const { provider, request } = getRequest(target)
+
+    if (stream) {
+      for await (const chunk of provider.stream({ ...request, signal })) {
+        stats.addChunk(chunk)
+        if (!chunk.content) continue
+
+        content += chunk.content
+        onStatus?.(null)
+        onReply({ role: "assistant", content }, target)
+      }
+    } else {
+      const result = await provider.chat({ ...request, signal })
+      stats.addResult(result)
+      content = result.content
+    }
+  }
+
+  try {
+    for (const [index, next] of targets.entries()) {
+      target = next
+      try {
+        if (retry) {
+          await withRetry(generate, retry, {
+            signal,
+            // A reply that already started streaming can't be retried without losing what arrived
+            shouldRetry: (error) => !content && isRetryableError(error),
+            onRetry: (attempt) => onStatus?.(`Retrying (${attempt}/${retry.maxRetries})...`),
+          })
+        } else {
+          await generate()
+        }
+        break
+      } catch (error) {
+        const fallback = targets[index + 1]
+        if (signal.aborted || content || fallback === undefined) throw error
+
+        console.error(`${describeTarget(target)} failed, switching to ${describeTarget(fallback)}:`, error)
+        onStatus?.(`Trying fallback model ${describeTarget(fallback)}...`)
+      }
+    }
+
+    return finish({ role: "assistant", content, stats: stats.get() })
+  } catch (error) {
+    // Stopped by the user: keep whatever arrived so far
+    if (signal.aborted) return finish({ role: "assistant", content, stats: stats.get(), stopped: true })
+
+    console.error("Error:", error)
+
+    // Show the server's own explanation, e.g. that the model isn't loaded or the prompt is too long
+    return finish({
+      role: "assistant",
+      content,
+      stats: content ? stats.get() : undefined,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  } finally {
+    onStatus?.(null)
+  }
+}
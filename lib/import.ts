@@ -0,0 +1,293 @@
+import { z } from "zod"
+import { upgradeConversation } from "@/lib/storage/migrations"
+import type { Conversation, Message, MessageNode } from "@/lib/types"
+
+// Reads conversations exported from this app, ChatGPT and Open WebUI. Imported conversations get
+// ids derived from the source's own, so importing the same file twice doesn't create copies.
+
+// A message tree as the other apps store it, before it's mapped to ours
+interface SourceNode {
+  parentId: string | null
+  childIds: string[]
+  // null for entries that aren't chat messages, like system or tool messages; they're left out
+  message: Message | null
+}
+
+// Both apps store seconds, but some Open WebUI versions use milliseconds for the chat's own timestamp
+function toMilliseconds(timestamp: number) {
+  return timestamp < 1e12 ? Math.round(timestamp * 1000) : timestamp
+}
+
+// Build our tree from another app's, skipping entries without a message and linking their
+// children to the nearest message above them
+function buildTree(source: Record<string, SourceNode>, currentId?: string | null) {
+  const nodes: Record<string, MessageNode> = {}
+  const rootIds: string[] = []
+  const visited = new Set<string>()
+
+  const visit = (id: string, parentId: string | null) => {
+    const node = source[id]
+    if (!node || visited.has(id)) return
+    visited.add(id)
+
+    if (node.message) {
+      nodes[id] = { id, parentId, childIds: [], message: node.message }
+      if (parentId) nodes[parentId].childIds.push(id)
+      else rootIds.push(id)
+      parentId = id
+    }
+    for (const childId of node.childIds) visit(childId, parentId)
+  }
+
+  for (const [id, node] of Object.entries(source)) {
+    if (node.parentId === null || !source[node.parentId]) visit(id, null)
+  }
+
+  // The source's current message, or the closest message above it
+  let currentNodeId: string | null = null
+  for (let id = currentId; id && source[id] && !currentNodeId; id = source[id].parentId) {
+    if (nodes[id]) currentNodeId = id
+  }
+  // Without one, show the newest branch
+  if (!currentNodeId && rootIds.length > 0) {
+    let node = nodes[rootIds[rootIds.length - 1]]
+    while (node.childIds.length > 0) node = nodes[node.childIds[node.childIds.length - 1]]
+    currentNodeId = node.id
+  }
+
+  return { nodes, rootIds, currentNodeId }
+}
+
+// The model of the newest reply on the visible branch
+function getLastModel(tree: ReturnType<typeof buildTree>) {
+  for (let id = tree.currentNodeId; id; id = tree.nodes[id].parentId) {
+    const { message } = tree.nodes[id]
+    if (message.role === "assistant" && message.model) return message.model
+  }
+  return ""
+}
+
+// This app's own export
+
+const appExportSchema = z.object({ version: z.number().optional(), conversations: z.array(z.unknown()) })
+
+function importAppConversations(items: unknown[], version?: number): Conversation[] {
+  return items.flatMap((item) => {
+    const data = version !== undefined && typeof item === "object" ? { schemaVersion: version, ...item } : item
+    const result = upgradeConversation(data)
+    return result.ok ? [result.conversation] : []
+  })
+}
+
+// ChatGPT's conversations.json
+
+const chatGPTConversationSchema = z.object({
+  id: z.string().optional(),
+  conversation_id: z.string().optional(),
+  title: z.string().nullish(),
+  create_time: z.number().nullish(),
+  update_time: z.number().nullish(),
+  current_node: z.string().nullish(),
+  default_model_slug: z.string().nullish(),
+  mapping: z.record(
+    z.object({
+      parent: z.string().nullish(),
+      children: z.array(z.string()).default([]),
+      message: z
+        .object({
+          author: z.object({ role: z.string() }),
+          content: z
+            .object({
+              content_type: z.string(),
+              parts: z.array(z.unknown()).optional(),
+              text: z.string().optional(),
+            })
+            .passthrough(),
+          metadata: z
+            .object({
+              model_slug: z.string().nullish(),
+              is_visually_hidden_from_conversation: z.boolean().nullish(),
+            })
+            .passthrough()
+            .nullish(),
+        })
+        .nullish(),
+    }),
+  ),
+})
+
+type ChatGPTConversation = z.infer<typeof chatGPTConversationSchema>
+
+// Only plain text is kept; images, tool calls and the like have no equivalent here
+function readChatGPTMessage(message: ChatGPTConversation["mapping"][string]["message"]): Message | null {
+  if (!message || message.metadata?.is_visually_hidden_from_conversation) return null
+  const role = message.author.role
+  if (role !== "user" && role !== "assistant") return null
+
+  const { content_type, parts, text } = message.content
+  if (content_type !== "text" && content_type !== "multimodal_text") return null
+  const content = text ?? (parts ?? []).filter((part): part is string => typeof part === "string").join("\n")
+  if (!content.trim()) return null
+
+  return {
+    role,
+    content,
+    ...(role === "assistant" && message.metadata?.model_slug && { model: message.metadata.model_slug }),
+  }
+}
+
+function importChatGPTConversation(conversation: ChatGPTConversation): Conversation {
+  const source: Record<string, SourceNode> = {}
+  for (const [id, entry] of Object.entries(conversation.mapping)) {
+    source[id] = {
+      parentId: entry.parent ?? null,
+      childIds: entry.children,
+      message: readChatGPTMessage(entry.message),
+    }
+  }
+  const tree = buildTree(source, conversation.current_node)
+  const time = conversation.update_time ?? conversation.create_time
+
+  return {
+    id: `chatgpt-${conversation.conversation_id ?? conversation.id ?? conversation.create_time}`,
+    title: conversation.title || "Imported Conversation",
+    ...tree,
+    model: conversation.default_model_slug ?? getLastModel(tree),
+    timestamp: time ? toMilliseconds(time) : Date.now(),
+  }
+}
+
+// Open WebUI's chat export
+
+const openWebUIMessageSchema = z.object({
+  id: z.string(),
+  parentId: z.string().nullish(),
+  childrenIds: z.array(z.string()).default([]),
+  role: z.string(),
+  content: z.unknown(),
+  model: z.string().nullish(),
+})
+
+const openWebUIChatSchema = z.object({
+  id: z.string().optional(),
+  title: z.string().nullish(),
+  models: z.array(z.string()).nullish(),
+  timestamp: z.number().nullish(),
+  history: z.object({ messages: z.record(openWebUIMessageSchema), currentId: z.string().nullish() }).nullish(),
+  messages: z.array(openWebUIMessageSchema).nullish(),
+})
+
+// Exports wrap each chat with its database row; older ones contain just the chat
+const openWebUIConversationSchema = z.union([
+  z.object({
+    id: z.string(),
+    title: z.string().nullish(),
+    updated_at: z.number().nullish(),
+    created_at: z.number().nullish(),
+    chat: openWebUIChatSchema,
+  }),
+  openWebUIChatSchema.transform((chat) => ({
+    id: chat.id,
+    title: chat.title,
+    updated_at: undefined,
+    created_at: undefined,
+    chat,
+  })),
+])
+
+type OpenWebUIConversation = z.infer<typeof openWebUIConversationSchema>
+
+function importOpenWebUIConversation({ id, title, updated_at, created_at, chat }: OpenWebUIConversation): Conversation {
+  const messages = chat.history?.messages ?? Object.fromEntries((chat.messages ?? []).map((m) => [m.id, m]))
+
+  const source: Record<string, SourceNode> = {}
+  for (const message of Object.values(messages)) {
+    const { role, content, model } = message
+    const isChatMessage = (role === "user" || role === "assistant") && typeof content === "string"
+    source[message.id] = {
+      parentId: message.parentId ?? null,
+      childIds: message.childrenIds,
+      message: isChatMessage ? { role, content, ...(role === "assistant" && model && { model }) } : null,
+    }
+  }
+  const tree = buildTree(source, chat.history?.currentId)
+  const time = updated_at ?? chat.timestamp ?? created_at
+
+  return {
+    id: `openwebui-${id ?? chat.id ?? time}`,
+    title: title || chat.title || "Imported Conversation",
+    ...tree,
+    model: chat.models?.[0] ?? getLastModel(tree),
+    timestamp: time ? toMilliseconds(time) : Date.now(),
+  }
+}
+
+export interface ImportResult {
+  conversations: Conversation[]
+  // Entries in the file that couldn't be read
+  failed: number
+}
+
+// Map the entries of one source format, counting the ones that don't fit it
+function importEach<T>(items: unknown[], schema: z.ZodType<T, z.ZodTypeDef, unknown>, map: (item: T) => Conversation) {
+  const result: ImportResult = { conversations: [], failed: 0 }
+  for (const item of items) {
+    const parsed = schema.safeParse(item)
+    if (parsed.success) result.conversations.push(map(parsed.data))
+    else result.failed++
+  }
+  return result
+}
+
+// Parse an exported conversations file, detecting which app it came from.
+// Throws with a readable message if the file isn't in a known format.
+export function parseConversationsFile(text: string): ImportResult {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new Error("The file is not valid JSON")
+  }
+
+  const appExport = appExportSchema.safeParse(json)
+  if (appExport.success) {
+    const { conversations, version } = appExport.data
+    const imported = importAppConversations(conversations, version)
+    return { conversations: imported, failed: conversations.length - imported.length }
+  }
+
+  const items: unknown[] = Array.isArray(json) ? json : [json]
+  const first = items.find((item): item is Record<string, unknown> => typeof item === "object" && item !== null)
+  if (!first) throw new Error("The file doesn't contain any conversations")
+
+  if ("mapping" in first) return importEach(items, chatGPTConversationSchema, importChatGPTConversation)
+  if ("chat" in first || "history" in first) {
+    return importEach(items, openWebUIConversationSchema, importOpenWebUIConversation)
+  }
+  if ("nodes" in first || "messages" in first) {
+    const imported = importAppConversations(items)
+    return { conversations: imported, failed: items.length - imported.length }
+  }
+
+  throw new Error("The file isn't an export from this app, ChatGPT or Open WebUI")
+}
+
+// Add imported conversations to the list. One that's already there is only replaced by a newer
+// copy, so importing the same file again changes nothing.
+export function mergeConversations(existing: Conversation[], imported: Conversation[]) {
+  const byId = new Map(existing.map((c) => [c.id, c]))
+  let added = 0
+  let updated = 0
+
+  for (const conversation of imported) {
+    const current = byId.get(conversation.id)
+    if (current && current.timestamp >= conversation.timestamp) continue
+
+    if (current) updated++
+    else added++
+    byId.set(conversation.id, conversation)
+  }
+
+  const conversations = [...byId.values()].sort((a, b) => b.timestamp - a.timestamp)
+  return { conversations, added, updated, skipped: imported.length - added - updated }
+}
@@ -0,0 +1,112 @@
+import type { Conversation, Message, MessageNode } from "@/lib/types"
+import { generateId } from "@/lib/utils"
+
+// Conversations are stored as a tree so that editing a message or regenerating a reply adds a
+// sibling branch instead of overwriting the old continuation. The visible conversation is the
+// path from a root down to `currentNodeId`, and only that path is sent to the model.
+
+type MessageTree = Pick<Conversation, "nodes" | "rootIds" | "currentNodeId">
+
+export const EMPTY_TREE: MessageTree = { nodes: {}, rootIds: [], currentNodeId: null }
+
+// Nodes from the root down to `nodeId` (defaults to the current node)
+export function getPath(tree: MessageTree, nodeId = tree.currentNodeId): MessageNode[] {
+  const path: MessageNode[] = []
+  let node = nodeId ? tree.nodes[nodeId] : undefined
+  while (node) {
+    path.unshift(node)
+    node = node.parentId ? tree.nodes[node.parentId] : undefined
+  }
+  return path
+}
+
+export function getPathMessages(tree: MessageTree, nodeId = tree.currentNodeId): Message[] {
+  return getPath(tree, nodeId).map((node) => node.message)
+}
+
+// All alternatives at the node's position, including the node itself
+export function getSiblingIds(tree: MessageTree, nodeId: string): string[] {
+  const parentId = tree.nodes[nodeId]?.parentId
+  return parentId ? (tree.nodes[parentId]?.childIds ?? []) : tree.rootIds
+}
+
+// Follow the newest child at every level to find where a branch currently ends
+function getLatestLeaf(tree: MessageTree, nodeId: string): string {
+  let node = tree.nodes[nodeId]
+  while (node.childIds.length > 0) {
+    node = tree.nodes[node.childIds[node.childIds.length - 1]]
+  }
+  return node.id
+}
+
+// Add a message below `parentId` (or as a new root) and make it the end of the visible path
+export function addMessage<T extends MessageTree>(
+  tree: T,
+  parentId: string | null,
+  message: Message,
+  id = generateId(),
+): T {
+  const nodes = { ...tree.nodes, [id]: { id, parentId, childIds: [], message } }
+  const parent = parentId ? tree.nodes[parentId] : undefined
+  if (parent) {
+    nodes[parent.id] = { ...parent, childIds: [...parent.childIds, id] }
+  }
+
+  return {
+    ...tree,
+    nodes,
+    rootIds: parent ? tree.rootIds : [...tree.rootIds, id],
+    currentNodeId: id,
+  }
+}
+
+export function setMessage<T extends MessageTree>(tree: T, nodeId: string, message: Message): T {
+  const node = tree.nodes[nodeId]
+  if (!node) return tree
+  return { ...tree, nodes: { ...tree.nodes, [nodeId]: { ...node, message } } }
+}
+
+// Show a different alternative at the node's position, continuing down its newest branch
+export function selectSibling<T extends MessageTree>(tree: T, siblingId: string): T {
+  if (!tree.nodes[siblingId]) return tree
+  return { ...tree, currentNodeId: getLatestLeaf(tree, siblingId) }
+}
+
+// Remove a single message. Its replies are moved up to its parent so the rest of the branch survives.
+export function deleteMessage<T extends MessageTree>(tree: T, nodeId: string): T {
+  const node = tree.nodes[nodeId]
+  if (!node) return tree
+
+  const nodes = { ...tree.nodes }
+  delete nodes[nodeId]
+
+  for (const childId of node.childIds) {
+    nodes[childId] = { ...nodes[childId], parentId: node.parentId }
+  }
+
+  // The children take the deleted node's place among its siblings
+  const replaceInSiblings = (ids: string[]) => ids.flatMap((id) => (id === nodeId ? node.childIds : [id]))
+
+  const siblingIds = getSiblingIds(tree, nodeId)
+  const remainingSiblingIds = replaceInSiblings(siblingIds)
+
+  let rootIds = tree.rootIds
+  if (node.parentId) {
+    const parent = nodes[node.parentId]
+    nodes[parent.id] = { ...parent, childIds: remainingSiblingIds }
+  } else {
+    rootIds = remainingSiblingIds
+  }
+
+  const next = { ...tree, nodes, rootIds }
+  if (tree.currentNodeId !== nodeId) return next
+
+  // The visible path ended at the deleted message: show a remaining alternative, or end at the parent
+  const fallbackId = remainingSiblingIds[Math.min(siblingIds.indexOf(nodeId), remainingSiblingIds.length - 1)]
+  return { ...next, currentNodeId: fallbackId ? getLatestLeaf(next, fallbackId) : node.parentId }
+}
+
+// Build a single-branch tree from a flat list of messages
+export function treeFromMessages(messages: Message[]): MessageTree {
+  return messages.reduce<MessageTree>((tree, message) => addMessage(tree, tree.currentNodeId, message), EMPTY_TREE)
+}
@@ -0,0 +1,26 @@
+// Reader for newline-delimited JSON streams, as used by Ollama's native API
+
+// Yields every non-empty line of the stream as it arrives
+export async function* readJsonLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+      const lines = buffer.split("\n")
+      buffer = done ? "" : (lines.pop() ?? "")
+
+      for (const line of lines) {
+        if (line.trim()) yield line
+      }
+
+      if (done) return
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
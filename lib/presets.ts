@@ -0,0 +1,122 @@
+import { z } from "zod"
+import type { SamplingParameters } from "@/lib/types"
+import { generateId } from "@/lib/utils"
+
+// A named bundle of model, system prompt and sampling values that can be applied to a conversation
+export interface Preset {
+  id: string
+  name: string
+  // Empty means "keep whatever model the conversation already uses"
+  model: string
+  systemPrompt: string
+  parameters: SamplingParameters
+}
+
+// Seeded the first time the app runs so there's something to pick from
+export const BUILT_IN_PRESETS: Preset[] = [
+  {
+    id: "precise",
+    name: "Precise",
+    model: "",
+    systemPrompt: "You are a careful assistant. Answer accurately and concisely, and say when you are unsure.",
+    parameters: { temperature: 0.2, top_p: 0.9 },
+  },
+  {
+    id: "creative",
+    name: "Creative",
+    model: "",
+    systemPrompt: "You are an imaginative writing partner. Offer vivid, original ideas.",
+    parameters: { temperature: 1.1, top_p: 0.98, presence_penalty: 0.6 },
+  },
+  {
+    id: "code",
+    name: "Code",
+    model: "",
+    systemPrompt:
+      "You are an expert programmer. Reply with working code in fenced code blocks and keep explanations short.",
+    parameters: { temperature: 0.1, top_p: 0.95 },
+  },
+]
+
+export const samplingParametersSchema = z.object({
+  temperature: z.number().optional(),
+  top_p: z.number().optional(),
+  top_k: z.number().int().optional(),
+  max_tokens: z.number().int().positive().optional(),
+  stop: z.array(z.string()).optional(),
+  seed: z.number().int().optional(),
+  frequency_penalty: z.number().optional(),
+  presence_penalty: z.number().optional(),
+})
+
+const presetSchema = z.object({
+  name: z.string().trim().min(1),
+  model: z.string().default(""),
+  systemPrompt: z.string().default(""),
+  parameters: samplingParametersSchema.default({}),
+})
+
+// Presets as saved in localStorage, with their ids
+const savedPresetSchema = presetSchema.extend({ id: z.string().min(1) })
+
+// Read the presets saved in localStorage. Ones that can't be read are dropped; if the list itself
+// can't be read the built-in presets are used instead.
+export function parseSavedPresets(text: string): Preset[] {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    return BUILT_IN_PRESETS
+  }
+  if (!Array.isArray(json)) return BUILT_IN_PRESETS
+
+  return json.flatMap((item) => {
+    const result = savedPresetSchema.safeParse(item)
+    return result.success ? [result.data] : []
+  })
+}
+
+// Accept both our own export format and a bare array of presets
+const presetsFileSchema = z.union([z.object({ presets: z.array(presetSchema) }), z.array(presetSchema)])
+
+export function exportPresets(presets: Preset[]) {
+  return JSON.stringify(
+    {
+      version: 1,
+      presets: presets.map(({ name, model, systemPrompt, parameters }) => ({ name, model, systemPrompt, parameters })),
+    },
+    null,
+    2,
+  )
+}
+
+// Parse an exported presets file. Throws with a readable message if the file isn't valid.
+export function parsePresetsFile(text: string): Omit<Preset, "id">[] {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new Error("The file is not valid JSON")
+  }
+
+  const result = presetsFileSchema.safeParse(json)
+  if (!result.success) {
+    throw new Error("The file doesn't contain any valid presets")
+  }
+
+  return Array.isArray(result.data) ? result.data : result.data.presets
+}
+
+// Merge imported presets into the list; a preset with the same name is overwritten in place
+export function mergePresets(existing: Preset[], imported: Omit<Preset, "id">[]): Preset[] {
+  const merged = [...existing]
+  for (const preset of imported) {
+    const index = merged.findIndex((p) => p.name === preset.name)
+    if (index >= 0) {
+      merged[index] = { ...preset, id: merged[index].id }
+    } else {
+      merged.push({ ...preset, id: generateId() })
+    }
+  }
+  return merged
+}
@@ -0,0 +1,137 @@
+import type { z } from "zod"
+import { errorResponseSchema, streamErrorSchema } from "@/lib/providers/schemas"
+import type { HealthFailure, HealthResult, ProviderConfig } from "@/lib/providers/types"
+
+// Health checks that take longer than this count as failed
+const HEALTH_TIMEOUT_MS = 10_000
+
+// A response with an error status
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message)
+    this.name = "HttpError"
+  }
+}
+
+// A response that doesn't have the shape we expect
+export class ResponseFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ResponseFormatError"
+  }
+}
+
+// The server's own error message if the body is one of the usual error shapes, else the raw text
+function readErrorMessage(text: string) {
+  try {
+    const parsed = errorResponseSchema.safeParse(JSON.parse(text))
+    if (parsed.success) return parsed.data
+  } catch {
+    // Not JSON
+  }
+  return text
+}
+
+// Validate decoded JSON against `schema`
+export function parseResponse<T extends z.ZodTypeAny>(schema: T, data: unknown): z.infer<T> {
+  const parsed = schema.safeParse(data)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    throw new ResponseFormatError(
+      `Unexpected response from the server: ${issue.path.join(".") || "body"}: ${issue.message}`,
+    )
+  }
+  return parsed.data
+}
+
+// Parse one event of a streamed reply. Errors the server reports mid-stream are thrown.
+export function parseStreamEvent<T extends z.ZodTypeAny>(schema: T, text: string): z.infer<T> {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new ResponseFormatError("The server sent a malformed stream event")
+  }
+
+  const error = streamErrorSchema.safeParse(data)
+  if (error.success) throw new Error(error.data)
+  return parseResponse(schema, data)
+}
+
+// Fetch helpers shared by the provider implementations, bound to one server
+export function createHttpClient({ baseUrl, headers }: ProviderConfig) {
+  const request = async (path: string, init?: RequestInit) => {
+    const response = await fetch(`${baseUrl}${path}`, { ...init, headers: { ...headers, ...init?.headers } })
+    if (!response.ok) {
+      const message = readErrorMessage(await response.text().catch(() => ""))
+      throw new HttpError(message || `Server responded with ${response.status} ${response.statusText}`, response.status)
+    }
+    return response
+  }
+
+  const readJson = async <T extends z.ZodTypeAny>(response: Response, schema: T): Promise<z.infer<T>> => {
+    const data = await response.json().catch(() => {
+      throw new ResponseFormatError("The server didn't answer with JSON")
+    })
+    return parseResponse(schema, data)
+  }
+
+  // Tell the failure kinds apart. The browser reports CORS, mixed-content and refused connections all
+  // as the same TypeError, so a follow-up "no-cors" request checks whether anything answered at all.
+  const diagnose = async (path: string, error: unknown): Promise<HealthFailure> => {
+    if (error instanceof HttpError) return error.status === 404 ? "not-found" : "http-error"
+    if (typeof window === "undefined") return "unreachable"
+    if (window.location.protocol === "https:" && baseUrl.startsWith("http:")) return "mixed-content"
+
+    try {
+      await fetch(`${baseUrl}${path}`, { mode: "no-cors", signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS) })
+      return "cors"
+    } catch {
+      return "unreachable"
+    }
+  }
+
+  const post = (path: string, body: unknown, signal?: AbortSignal) =>
+    request(path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal,
+    })
+
+  return {
+    async getJson<T extends z.ZodTypeAny>(path: string, schema: T) {
+      return readJson(await request(path), schema)
+    },
+
+    async postJson<T extends z.ZodTypeAny>(path: string, body: unknown, schema: T, signal?: AbortSignal) {
+      return readJson(await post(path, body, signal), schema)
+    },
+
+    // POST a request whose reply is streamed back; resolves once the response headers arrive
+    async postStream(path: string, body: unknown, signal?: AbortSignal) {
+      const response = await post(path, body, signal)
+      if (!response.body) throw new Error("Server sent an empty response")
+      return response.body
+    },
+
+    // Time a request to a cheap endpoint
+    async checkHealth(path: string): Promise<HealthResult> {
+      const startedAt = performance.now()
+      try {
+        await request(path, { signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS) })
+        return { ok: true, latencyMs: performance.now() - startedAt }
+      } catch (error) {
+        return {
+          ok: false,
+          latencyMs: performance.now() - startedAt,
+          error: error instanceof Error ? error.message : String(error),
+          failure: await diagnose(path, error),
+        }
+      }
+    },
+  }
+}
@@ -0,0 +1,37 @@
+import { getEndpointUrl } from "@/lib/endpoints"
+import { createLlamaCppProvider } from "@/lib/providers/llamacpp"
+import { createOllamaProvider } from "@/lib/providers/ollama"
+import { createOpenAIProvider } from "@/lib/providers/openai"
+import { createProxyProvider } from "@/lib/providers/proxy"
+import type { LLMProvider, ProviderConfig, ProviderType } from "@/lib/providers/types"
+import type { Endpoint } from "@/lib/types"
+
+export type * from "@/lib/providers/types"
+
+export const PROVIDER_OPTIONS: { type: ProviderType; label: string; defaultPort: string }[] = [
+  { type: "openai", label: "OpenAI-compatible (LM Studio, vLLM, ...)", defaultPort: "1234" },
+  { type: "ollama", label: "Ollama", defaultPort: "11434" },
+  { type: "llamacpp", label: "llama.cpp server", defaultPort: "8080" },
+]
+
+// Provider for the endpoint, honouring its direct/proxy mode
+export function createProvider(endpoint: Endpoint): LLMProvider {
+  return endpoint.mode === "proxy" ? createProxyProvider(endpoint) : createDirectProvider(endpoint)
+}
+
+// Provider that calls the endpoint itself; used by the browser in direct mode and by the proxy routes
+export function createDirectProvider(endpoint: Endpoint): LLMProvider {
+  const config: ProviderConfig = {
+    baseUrl: getEndpointUrl(endpoint),
+    headers: endpoint.apiKey ? { Authorization: `Bearer ${endpoint.apiKey}` } : {},
+  }
+
+  switch (endpoint.provider) {
+    case "ollama":
+      return createOllamaProvider(config)
+    case "llamacpp":
+      return createLlamaCppProvider(config)
+    default:
+      return createOpenAIProvider(config)
+  }
+}
@@ -0,0 +1,96 @@
+import { createHttpClient, parseStreamEvent } from "@/lib/providers/http"
+import {
+  llamaCppCompletionSchema,
+  llamaCppEmbeddingSchema,
+  llamaCppPropsSchema,
+  llamaCppTemplateSchema,
+} from "@/lib/providers/schemas"
+import type { ChatRequest, LLMProvider, ProviderConfig } from "@/lib/providers/types"
+import { readServerSentEvents } from "@/lib/sse"
+import type { ChatMessage, SamplingParameters } from "@/lib/types"
+
+// llama.cpp's /completion takes max_tokens as n_predict; the other sampling names match
+function toLlamaCppParameters({ max_tokens, ...parameters }: SamplingParameters = {}) {
+  return { ...parameters, ...(max_tokens !== undefined && { n_predict: max_tokens }) }
+}
+
+// ChatML, used when the server is too old to apply the model's own chat template
+function formatChatML(messages: ChatMessage[]) {
+  return messages.map((m) => `<|im_start|>${m.role}\n${m.content}<|im_end|>\n`).join("") + "<|im_start|>assistant\n"
+}
+
+// llama.cpp's native server API. /completion takes a raw prompt, so the chat is first
+// rendered with the model's chat template through /apply-template.
+export function createLlamaCppProvider(config: ProviderConfig): LLMProvider {
+  const http = createHttpClient(config)
+
+  const buildPrompt = async (messages: ChatMessage[], signal?: AbortSignal) => {
+    try {
+      const data = await http.postJson("/apply-template", { messages }, llamaCppTemplateSchema, signal)
+      return data.prompt
+    } catch (error) {
+      if (signal?.aborted) throw error
+      return formatChatML(messages)
+    }
+  }
+
+  const body = async ({ messages, parameters, signal }: ChatRequest, stream: boolean) => ({
+    prompt: await buildPrompt(messages, signal),
+    stream,
+    ...toLlamaCppParameters(parameters),
+  })
+
+  return {
+    type: "llamacpp",
+
+    async listModels() {
+      // llama.cpp serves exactly one model, described by /props
+      const data = await http.getJson("/props", llamaCppPropsSchema)
+      const modelPath = data.model_path ?? "default"
+      return [
+        {
+          id: modelPath.split(/[\\/]/).pop() || modelPath,
+          contextLength: data.default_generation_settings?.n_ctx,
+        },
+      ]
+    },
+
+    async chat(request) {
+      const data = await http.postJson(
+        "/completion",
+        await body(request, false),
+        llamaCppCompletionSchema,
+        request.signal,
+      )
+      return {
+        content: data.content,
+        completionTokens: data.tokens_predicted,
+      }
+    },
+
+    async *stream(request) {
+      const stream = await http.postStream("/completion", await body(request, true), request.signal)
+
+      for await (const payload of readServerSentEvents(stream)) {
+        const chunk = parseStreamEvent(llamaCppCompletionSchema, payload)
+        yield {
+          content: chunk.content || undefined,
+          completionTokens: chunk.stop ? chunk.tokens_predicted : undefined,
+        }
+        if (chunk.stop) return
+      }
+    },
+
+    async embeddings(_model, input) {
+      const embeddings: number[][] = []
+      for (const content of input) {
+        embeddings.push(await http.postJson("/embedding", { content }, llamaCppEmbeddingSchema))
+      }
+      return embeddings
+    },
+
+    health() {
+      return http.checkHealth("/health")
+    },
+  }
+}
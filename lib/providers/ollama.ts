@@ -0,0 +1,60 @@
+import { readJsonLines } from "@/lib/ndjson"
+import { createHttpClient, parseStreamEvent } from "@/lib/providers/http"
+import { ollamaChatSchema, ollamaEmbedSchema, ollamaTagsSchema } from "@/lib/providers/schemas"
+import type { ChatRequest, LLMProvider, ProviderConfig } from "@/lib/providers/types"
+import type { SamplingParameters } from "@/lib/types"
+
+// Ollama takes sampling settings in an `options` object, with its own name for max_tokens
+function toOllamaOptions({ max_tokens, ...parameters }: SamplingParameters = {}) {
+  return { ...parameters, ...(max_tokens !== undefined && { num_predict: max_tokens }) }
+}
+
+// Ollama's native API (/api/chat, /api/tags), which streams newline-delimited JSON instead of SSE
+export function createOllamaProvider(config: ProviderConfig): LLMProvider {
+  const http = createHttpClient(config)
+
+  const body = ({ model, messages, parameters }: ChatRequest, stream: boolean) => ({
+    model,
+    messages,
+    stream,
+    options: toOllamaOptions(parameters),
+  })
+
+  return {
+    type: "ollama",
+
+    async listModels() {
+      const data = await http.getJson("/api/tags", ollamaTagsSchema)
+      return data.models.map((item) => ({ id: item.name }))
+    },
+
+    async chat(request) {
+      const data = await http.postJson("/api/chat", body(request, false), ollamaChatSchema, request.signal)
+      return {
+        content: data.message?.content ?? "",
+        completionTokens: data.eval_count,
+      }
+    },
+
+    async *stream(request) {
+      const stream = await http.postStream("/api/chat", body(request, true), request.signal)
+
+      for await (const line of readJsonLines(stream)) {
+        const chunk = parseStreamEvent(ollamaChatSchema, line)
+        yield {
+          content: chunk.message?.content || undefined,
+          completionTokens: chunk.done ? chunk.eval_count : undefined,
+        }
+      }
+    },
+
+    async embeddings(model, input) {
+      const data = await http.postJson("/api/embed", { model, input }, ollamaEmbedSchema)
+      return data.embeddings
+    },
+
+    health() {
+      return http.checkHealth("/api/version")
+    },
+  }
+}
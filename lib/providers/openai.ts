@@ -0,0 +1,66 @@
+import { createHttpClient, parseStreamEvent } from "@/lib/providers/http"
+import {
+  openAIChatCompletionChunkSchema,
+  openAIChatCompletionSchema,
+  openAIEmbeddingsSchema,
+  openAIModelsSchema,
+} from "@/lib/providers/schemas"
+import type { ChatRequest, LLMProvider, ProviderConfig } from "@/lib/providers/types"
+import { readServerSentEvents } from "@/lib/sse"
+
+// OpenAI-compatible servers: LM Studio, vLLM, LocalAI, llama.cpp's /v1 endpoints, Ollama's /v1 endpoints, ...
+export function createOpenAIProvider(config: ProviderConfig): LLMProvider {
+  const http = createHttpClient(config)
+
+  const body = ({ model, messages, parameters }: ChatRequest) => ({ model, messages, ...parameters })
+
+  return {
+    type: "openai",
+
+    async listModels() {
+      const data = await http.getJson("/v1/models", openAIModelsSchema)
+      return data.data.map((item) => ({
+        id: item.id,
+        contextLength: item.max_model_len ?? item.context_length,
+      }))
+    },
+
+    async chat(request) {
+      const data = await http.postJson(
+        "/v1/chat/completions",
+        body(request),
+        openAIChatCompletionSchema,
+        request.signal,
+      )
+      return {
+        content: data.choices[0].message.content ?? "",
+        completionTokens: data.usage?.completion_tokens,
+      }
+    },
+
+    async *stream(request) {
+      const stream = await http.postStream(
+        "/v1/chat/completions",
+        { ...body(request), stream: true, stream_options: { include_usage: true } },
+        request.signal,
+      )
+
+      for await (const payload of readServerSentEvents(stream)) {
+        const chunk = parseStreamEvent(openAIChatCompletionChunkSchema, payload)
+        yield {
+          content: chunk.choices[0]?.delta.content ?? undefined,
+          completionTokens: chunk.usage?.completion_tokens,
+        }
+      }
+    },
+
+    async embeddings(model, input) {
+      const data = await http.postJson("/v1/embeddings", { model, input }, openAIEmbeddingsSchema)
+      return data.data.map((item) => item.embedding)
+    },
+
+    health() {
+      return http.checkHealth("/v1/models")
+    },
+  }
+}
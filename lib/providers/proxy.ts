@@ -0,0 +1,57 @@
+import { readJsonLines } from "@/lib/ndjson"
+import { HttpError, createHttpClient, parseStreamEvent } from "@/lib/providers/http"
+import {
+  chatResultSchema,
+  embeddingListSchema,
+  healthResultSchema,
+  modelInfoListSchema,
+  streamChunkSchema,
+} from "@/lib/providers/schemas"
+import type { HealthResult, LLMProvider } from "@/lib/providers/types"
+import type { Endpoint } from "@/lib/types"
+
+// Talks to the endpoint through this app's /api routes, so the browser never contacts the LLM server
+// itself. Avoids CORS and mixed-content errors and reaches servers only the Next.js host can see.
+export function createProxyProvider(endpoint: Endpoint): LLMProvider {
+  const http = createHttpClient({ baseUrl: "/api", headers: {} })
+
+  return {
+    type: endpoint.provider,
+
+    listModels() {
+      return http.postJson("/models", { endpoint }, modelInfoListSchema)
+    },
+
+    chat({ signal, ...request }) {
+      return http.postJson("/chat", { endpoint, ...request, stream: false }, chatResultSchema, signal)
+    },
+
+    async *stream({ signal, ...request }) {
+      const stream = await http.postStream("/chat", { endpoint, ...request, stream: true }, signal)
+
+      // The route re-encodes the server's reply as one StreamChunk per line
+      for await (const line of readJsonLines(stream)) {
+        yield parseStreamEvent(streamChunkSchema, line)
+      }
+    },
+
+    embeddings(model, input) {
+      return http.postJson("/embeddings", { endpoint, model, input }, embeddingListSchema)
+    },
+
+    async health(): Promise<HealthResult> {
+      try {
+        return await http.postJson("/health", { endpoint }, healthResultSchema)
+      } catch (error) {
+        // The app's own server either refused the request, e.g. because the endpoint isn't in its
+        // PROXY_ALLOWED_ORIGINS, and explains why, or is unreachable
+        return {
+          ok: false,
+          latencyMs: 0,
+          error: error instanceof Error ? error.message : String(error),
+          failure: error instanceof HttpError ? "http-error" : "unreachable",
+        }
+      }
+    },
+  }
+}
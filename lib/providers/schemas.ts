@@ -0,0 +1,106 @@
+import { z } from "zod"
+
+// Shapes of the JSON the servers send back. Only the fields we read are listed; zod drops the rest.
+
+// Errors reported in place of a result, also in the middle of a stream.
+// Servers disagree on the shape, so each variant is reduced to its message.
+export const streamErrorSchema = z.union([
+  // OpenAI, llama.cpp, LM Studio
+  z.object({ error: z.object({ message: z.string() }) }).transform(({ error }) => error.message),
+  // Ollama and this app's proxy routes
+  z.object({ error: z.string() }).transform(({ error }) => error),
+])
+
+// Bodies of responses with an error status
+export const errorResponseSchema = z.union([
+  streamErrorSchema,
+  // vLLM and other FastAPI-based servers
+  z.object({ detail: z.string() }).transform(({ detail }) => detail),
+  z.object({ message: z.string() }).transform(({ message }) => message),
+])
+
+// OpenAI-compatible API
+
+export const openAIModelsSchema = z.object({
+  data: z.array(
+    z.object({
+      id: z.string(),
+      // Not part of the OpenAI API, but vLLM and some other servers include one of them
+      max_model_len: z.number().optional(),
+      context_length: z.number().optional(),
+    }),
+  ),
+})
+
+const openAIUsageSchema = z.object({ completion_tokens: z.number() }).nullish()
+
+export const openAIChatCompletionSchema = z.object({
+  choices: z.array(z.object({ message: z.object({ content: z.string().nullish() }) })).min(1),
+  usage: openAIUsageSchema,
+})
+
+export const openAIChatCompletionChunkSchema = z.object({
+  // Empty in the final usage-only chunk
+  choices: z.array(z.object({ delta: z.object({ content: z.string().nullish() }) })),
+  usage: openAIUsageSchema,
+})
+
+export const openAIEmbeddingsSchema = z.object({
+  data: z.array(z.object({ embedding: z.array(z.number()) })),
+})
+
+// Ollama's native API
+
+export const ollamaTagsSchema = z.object({
+  models: z.array(z.object({ name: z.string() })),
+})
+
+// Used both for the full reply and for each streamed line
+export const ollamaChatSchema = z.object({
+  message: z.object({ content: z.string() }).optional(),
+  done: z.boolean(),
+  eval_count: z.number().optional(),
+})
+
+export const ollamaEmbedSchema = z.object({
+  embeddings: z.array(z.array(z.number())),
+})
+
+// llama.cpp server
+
+export const llamaCppPropsSchema = z.object({
+  model_path: z.string().optional(),
+  default_generation_settings: z.object({ n_ctx: z.number().optional() }).optional(),
+})
+
+export const llamaCppTemplateSchema = z.object({ prompt: z.string() })
+
+// Used both for the full reply and for each streamed event
+export const llamaCppCompletionSchema = z.object({
+  content: z.string(),
+  stop: z.boolean().optional(),
+  tokens_predicted: z.number().optional(),
+})
+
+// Older servers return { embedding: number[] }, newer ones [{ index, embedding: number[][] }]
+export const llamaCppEmbeddingSchema = z.union([
+  z.object({ embedding: z.array(z.number()) }).transform(({ embedding }) => embedding),
+  z.array(z.object({ embedding: z.array(z.array(z.number())).min(1) })).transform((items) => items[0].embedding[0]),
+])
+
+// This app's proxy routes, which answer with the provider interface's own types
+
+export const modelInfoListSchema = z.array(z.object({ id: z.string(), contextLength: z.number().optional() }))
+
+export const chatResultSchema = z.object({ content: z.string(), completionTokens: z.number().optional() })
+
+export const streamChunkSchema = z.object({ content: z.string().optional(), completionTokens: z.number().optional() })
+
+export const embeddingListSchema = z.array(z.array(z.number()))
+
+export const healthResultSchema = z.object({
+  ok: z.boolean(),
+  latencyMs: z.number(),
+  error: z.string().optional(),
+  failure: z.enum(["cors", "mixed-content", "unreachable", "not-found", "http-error"]).optional(),
+})
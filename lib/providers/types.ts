@@ -0,0 +1,64 @@
+import type { ChatMessage, SamplingParameters } from "@/lib/types"
+
+// The kinds of local LLM servers we can talk to
+export type ProviderType = "openai" | "ollama" | "llamacpp"
+
+// Where and how to reach a server
+export interface ProviderConfig {
+  baseUrl: string
+  headers: Record<string, string>
+}
+
+export interface ModelInfo {
+  id: string
+  // Context length the server reports for the model, if it reports one
+  contextLength?: number
+}
+
+export interface ChatRequest {
+  model: string
+  messages: ChatMessage[]
+  parameters?: SamplingParameters
+  signal?: AbortSignal
+}
+
+export interface ChatResult {
+  content: string
+  completionTokens?: number
+}
+
+// One piece of a streamed reply. Usage usually only arrives with the last chunk.
+export interface StreamChunk {
+  content?: string
+  completionTokens?: number
+}
+
+// Why a server couldn't be reached, as far as we can tell
+export type HealthFailure =
+  // The server answered, but the browser withheld the response because of missing CORS headers
+  | "cors"
+  // An https page tried to call a plain-http server
+  | "mixed-content"
+  // Nothing answered: server down, wrong host or port, or a timeout
+  | "unreachable"
+  // The server answered 404, usually a wrong base path or server type
+  | "not-found"
+  // Any other error status, e.g. 401 for a missing API key
+  | "http-error"
+
+export interface HealthResult {
+  ok: boolean
+  latencyMs: number
+  error?: string
+  failure?: HealthFailure
+}
+
+// Everything the UI needs from a server, independent of the API it speaks
+export interface LLMProvider {
+  type: ProviderType
+  listModels(): Promise<ModelInfo[]>
+  chat(request: ChatRequest): Promise<ChatResult>
+  stream(request: ChatRequest): AsyncGenerator<StreamChunk>
+  embeddings(model: string, input: string[]): Promise<number[][]>
+  health(): Promise<HealthResult>
+}
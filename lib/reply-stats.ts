@@ -0,0 +1,41 @@
+import type { ChatResult, StreamChunk } from "@/lib/providers"
+import type { MessageStats } from "@/lib/types"
+
+// Measures a reply while it arrives, for the stats shown under it
+export function createReplyStats() {
+  let startedAt = performance.now()
+  let firstTokenAt: number | undefined
+  let completionTokens: number | undefined
+  let chunkCount = 0
+
+  return {
+    // Restart the clock for another attempt at the same reply
+    start() {
+      startedAt = performance.now()
+    },
+
+    addChunk(chunk: StreamChunk) {
+      if (chunk.completionTokens) completionTokens = chunk.completionTokens
+      if (!chunk.content) return
+      firstTokenAt ??= performance.now()
+      chunkCount++
+    },
+
+    addResult(result: ChatResult) {
+      completionTokens = result.completionTokens
+    },
+
+    get(): MessageStats {
+      const finishedAt = performance.now()
+      // Servers that don't report usage get one token per streamed chunk
+      const tokens = completionTokens ?? chunkCount
+      // Generation speed only counts the time after the prompt was processed
+      const generationSeconds = (finishedAt - (firstTokenAt ?? startedAt)) / 1000
+      return {
+        timeToFirstToken: firstTokenAt !== undefined ? firstTokenAt - startedAt : undefined,
+        tokensPerSecond: tokens > 0 && generationSeconds > 0 ? tokens / generationSeconds : undefined,
+        completionTokens: tokens || undefined,
+      }
+    },
+  }
+}
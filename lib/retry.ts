@@ -0,0 +1,60 @@
+import { HttpError } from "@/lib/providers/http"
+import type { RetryPolicy } from "@/lib/types"
+
+interface RetryOptions {
+  signal?: AbortSignal
+  // Defaults to isRetryableError
+  shouldRetry?: (error: unknown) => boolean
+  // Called before waiting for retry number `retry` (starting at 1)
+  onRetry?: (retry: number, delayMs: number, error: unknown) => void
+}
+
+// Network failures, rate limiting and server errors, like the 503 some servers send while a model loads
+export function isRetryableError(error: unknown) {
+  if (error instanceof HttpError) return error.status === 429 || error.status >= 500
+  // fetch rejects with a TypeError when the server can't be reached at all
+  return error instanceof TypeError
+}
+
+// Exponential backoff with jitter: half of the delay is fixed and half random, so that
+// several tabs or requests that failed together don't all retry at the same moment
+export function getRetryDelay(retry: number, { baseDelayMs, maxDelayMs }: RetryPolicy) {
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (retry - 1))
+  return delay / 2 + Math.random() * (delay / 2)
+}
+
+// Wait `ms`, or reject as soon as `signal` is aborted
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+
+    const onAbort = () => {
+      clearTimeout(timeout)
+      reject(signal!.reason)
+    }
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+// Run `operation`, retrying it according to `policy` while it fails with a retryable error
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy,
+  { signal, shouldRetry = isRetryableError, onRetry }: RetryOptions = {},
+): Promise<T> {
+  for (let retry = 1; ; retry++) {
+    try {
+      return await operation()
+    } catch (error) {
+      if (signal?.aborted || retry > policy.maxRetries || !shouldRetry(error)) throw error
+
+      const delayMs = getRetryDelay(retry, policy)
+      onRetry?.(retry, delayMs, error)
+      await sleep(delayMs, signal)
+    }
+  }
+}
@@ -0,0 +1,222 @@
+import type { Conversation, MessageNode } from "@/lib/types"
+
+// Full-text search over every conversation's titles and messages, including other branches.
+// The index is an inverted index from words to the messages containing them. It's updated
+// incrementally: tree updates replace only the nodes they touch, so a message is re-indexed
+// only when its node object changed.
+
+export interface SearchSnippet {
+  text: string
+  // [start, end) ranges of `text` that matched the query
+  highlights: [number, number][]
+}
+
+export interface SearchResult {
+  conversationId: string
+  conversationTitle: string
+  // The matching message, or null when only the title matched
+  nodeId: string | null
+  role?: MessageNode["message"]["role"]
+  snippet: SearchSnippet
+  score: number
+}
+
+interface Entry {
+  key: string
+  conversationId: string
+  nodeId: string | null
+  text: string
+  // How often each word occurs in `text`
+  terms: Map<string, number>
+}
+
+interface IndexedConversation {
+  conversation: Conversation
+  // Title entry plus one per message, keyed by node id ("" for the title)
+  entries: Map<string, Entry>
+}
+
+// Title matches rank above messages with the same words
+const TITLE_BOOST = 2
+const SNIPPET_LENGTH = 160
+
+function tokenize(text: string) {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []
+}
+
+function countTerms(text: string) {
+  const terms = new Map<string, number>()
+  for (const term of tokenize(text)) terms.set(term, (terms.get(term) ?? 0) + 1)
+  return terms
+}
+
+// The part of `text` around the first match, with every match in it marked
+function createSnippet(text: string, queryTerms: string[]): SearchSnippet {
+  const flattened = text.replace(/\s+/g, " ").trim()
+  const lower = flattened.toLowerCase()
+
+  const firstMatch = Math.min(...queryTerms.map((term) => lower.indexOf(term)).filter((i) => i >= 0))
+  const start = Number.isFinite(firstMatch) ? Math.max(0, firstMatch - SNIPPET_LENGTH / 4) : 0
+  const end = Math.min(flattened.length, start + SNIPPET_LENGTH)
+  const prefix = start > 0 ? "…" : ""
+  const snippet = prefix + flattened.slice(start, end) + (end < flattened.length ? "…" : "")
+
+  const highlights: [number, number][] = []
+  const lowerSnippet = snippet.toLowerCase()
+  for (const term of queryTerms) {
+    for (let i = lowerSnippet.indexOf(term); i >= 0; i = lowerSnippet.indexOf(term, i + term.length)) {
+      highlights.push([i, i + term.length])
+    }
+  }
+
+  // Merge overlapping ranges so they can be rendered in order
+  highlights.sort((a, b) => a[0] - b[0])
+  const merged: [number, number][] = []
+  for (const range of highlights) {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1])
+    else merged.push([...range])
+  }
+
+  return { text: snippet, highlights: merged }
+}
+
+export function createSearchIndex() {
+  const conversations = new Map<string, IndexedConversation>()
+  // Word -> keys of the entries containing it
+  const postings = new Map<string, Set<string>>()
+  const entries = new Map<string, Entry>()
+
+  const addEntry = (entry: Entry) => {
+    entries.set(entry.key, entry)
+    for (const term of entry.terms.keys()) {
+      let keys = postings.get(term)
+      if (!keys) postings.set(term, (keys = new Set()))
+      keys.add(entry.key)
+    }
+  }
+
+  const removeEntry = (entry: Entry) => {
+    entries.delete(entry.key)
+    for (const term of entry.terms.keys()) {
+      const keys = postings.get(term)
+      keys?.delete(entry.key)
+      if (keys?.size === 0) postings.delete(term)
+    }
+  }
+
+  const createEntry = (conversationId: string, nodeId: string | null, text: string): Entry => ({
+    key: `${conversationId}/${nodeId ?? ""}`,
+    conversationId,
+    nodeId,
+    text,
+    terms: countTerms(text),
+  })
+
+  const indexConversation = (conversation: Conversation) => {
+    const previous = conversations.get(conversation.id)
+    if (previous?.conversation === conversation) return
+
+    const indexed: IndexedConversation = { conversation, entries: new Map() }
+
+    const previousTitle = previous?.entries.get("")
+    if (previousTitle && previousTitle.text === conversation.title) {
+      indexed.entries.set("", previousTitle)
+    } else {
+      if (previousTitle) removeEntry(previousTitle)
+      const entry = createEntry(conversation.id, null, conversation.title)
+      addEntry(entry)
+      indexed.entries.set("", entry)
+    }
+
+    for (const node of Object.values(conversation.nodes)) {
+      const previousEntry = previous?.entries.get(node.id)
+      if (previousEntry && previous?.conversation.nodes[node.id] === node) {
+        indexed.entries.set(node.id, previousEntry)
+        continue
+      }
+      if (previousEntry) removeEntry(previousEntry)
+      const entry = createEntry(conversation.id, node.id, node.message.content)
+      addEntry(entry)
+      indexed.entries.set(node.id, entry)
+    }
+
+    // Messages that were deleted from the conversation
+    for (const [id, entry] of previous?.entries ?? []) {
+      if (id && !conversation.nodes[id]) removeEntry(entry)
+    }
+
+    conversations.set(conversation.id, indexed)
+  }
+
+  return {
+    // Bring the index in line with the current conversations, re-indexing only what changed
+    update(current: Conversation[]) {
+      const ids = new Set<string>()
+      for (const conversation of current) {
+        ids.add(conversation.id)
+        indexConversation(conversation)
+      }
+      for (const [id, indexed] of conversations) {
+        if (ids.has(id)) continue
+        for (const entry of indexed.entries.values()) removeEntry(entry)
+        conversations.delete(id)
+      }
+    },
+
+    // Entries containing every word of the query, the last one also as a prefix while it's being typed.
+    // Ranked by TF-IDF, with title matches and exact phrase matches boosted.
+    search(query: string, limit = 50): SearchResult[] {
+      const queryTerms = [...new Set(tokenize(query))]
+      if (queryTerms.length === 0) return []
+
+      const scores = new Map<string, number>()
+      for (const [i, queryTerm] of queryTerms.entries()) {
+        const isLast = i === queryTerms.length - 1
+        const termScores = new Map<string, number>()
+
+        for (const [term, keys] of postings) {
+          if (term !== queryTerm && !(isLast && term.startsWith(queryTerm))) continue
+          const idf = Math.log(1 + entries.size / keys.size)
+          for (const key of keys) {
+            const frequency = entries.get(key)!.terms.get(term)!
+            termScores.set(key, (termScores.get(key) ?? 0) + (1 + Math.log(frequency)) * idf)
+          }
+        }
+
+        // Entries must match every word
+        for (const key of i === 0 ? termScores.keys() : [...scores.keys()]) {
+          const termScore = termScores.get(key)
+          if (termScore === undefined) scores.delete(key)
+          else scores.set(key, (scores.get(key) ?? 0) + termScore)
+        }
+        if (scores.size === 0) return []
+      }
+
+      const phrase = query.trim().toLowerCase()
+      const ranked = [...scores].map(([key, score]) => {
+        const entry = entries.get(key)!
+        const isPhraseMatch = queryTerms.length > 1 && entry.text.toLowerCase().includes(phrase)
+        return { entry, score: score * (entry.nodeId ? 1 : TITLE_BOOST) * (isPhraseMatch ? 1.5 : 1) }
+      })
+
+      // Snippets are only built for the results that are returned
+      return ranked
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(({ entry, score }) => {
+          const { conversation } = conversations.get(entry.conversationId)!
+          return {
+            conversationId: entry.conversationId,
+            conversationTitle: conversation.title,
+            nodeId: entry.nodeId,
+            role: entry.nodeId ? conversation.nodes[entry.nodeId].message.role : undefined,
+            snippet: createSnippet(entry.text, queryTerms),
+            score,
+          }
+        })
+    },
+  }
+}
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>
@@ -0,0 +1,45 @@
+// Minimal reader for the `data:` server-sent events that OpenAI-style servers stream back
+
+const DONE_SENTINEL = "[DONE]"
+
+// Yields the data payload of every event until the stream ends or the server sends [DONE]
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+  let data: string[] = []
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+      // Events are separated by blank lines; a trailing partial line stays in the buffer
+      const lines = buffer.split(/\r\n|\r|\n/)
+      buffer = done ? "" : (lines.pop() ?? "")
+
+      for (const line of lines) {
+        if (line === "") {
+          if (data.length > 0) {
+            const payload = data.join("\n")
+            data = []
+            if (payload === DONE_SENTINEL) return
+            yield payload
+          }
+        } else if (line.startsWith("data:")) {
+          data.push(line.slice(5).replace(/^ /, ""))
+        }
+        // Comments (":") and other fields like "event:" or "id:" aren't used by chat completions
+      }
+
+      if (done) {
+        // Some servers close the connection without a final blank line
+        const payload = data.join("\n")
+        if (data.length > 0 && payload !== DONE_SENTINEL) yield payload
+        return
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,24 @@
+import { SCHEMA_VERSION } from "@/lib/storage/migrations"
+import type { Conversation, MessageNode } from "@/lib/types"
+
+// A conversation without its messages, as stored in its own record
+export type ConversationRecord = Omit<Conversation, "nodes"> & { schemaVersion: number }
+
+export interface ConversationChanges {
+  record: ConversationRecord
+  // Messages that are new or changed since `previous`
+  changedNodes: MessageNode[]
+  deletedNodeIds: string[]
+}
+
+// What has to be written to turn the saved `previous` version into `conversation`.
+// Tree updates copy only the nodes they touch, so unchanged nodes are still the same objects.
+export function diffConversation(conversation: Conversation, previous?: Conversation): ConversationChanges {
+  const { nodes, ...record } = conversation
+  return {
+    // Conversations in memory are always current; only data written as-is by a migration carries its own version
+    record: { schemaVersion: SCHEMA_VERSION, ...record },
+    changedNodes: Object.values(nodes).filter((node) => previous?.nodes[node.id] !== node),
+    deletedNodeIds: Object.keys(previous?.nodes ?? {}).filter((id) => !nodes[id]),
+  }
+}
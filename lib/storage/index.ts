@@ -0,0 +1,74 @@
+import { createIndexedDBStore } from "@/lib/storage/indexeddb"
+import { upgradeConversation, type QuarantinedConversation } from "@/lib/storage/migrations"
+import { createServerStore, uploadConversations } from "@/lib/storage/server"
+import type { ConversationStore } from "@/lib/storage/types"
+import type { Conversation, StorageLocation } from "@/lib/types"
+import { generateId } from "@/lib/utils"
+
+export * from "@/lib/storage/types"
+export type { QuarantinedConversation, StoredConversations } from "@/lib/storage/migrations"
+export { recoverConversation } from "@/lib/storage/migrations"
+
+export function createConversationStore(location: StorageLocation): ConversationStore {
+  return location === "server" ? createServerStore() : createIndexedDBStore()
+}
+
+// Where versions before IndexedDB kept all conversations as one JSON string
+const LEGACY_STORAGE_KEY = "conversations"
+
+// Move conversations saved in localStorage into `store`. Entries that can't be read stay behind under
+// the same key and are returned quarantined, so the user can recover or delete them like any other
+// unreadable conversation; the rest is moved only once. If writing fails it's tried again on the next load.
+export async function migrateFromLocalStorage(store: ConversationStore): Promise<QuarantinedConversation[]> {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY)
+  if (saved === null) return []
+
+  let items: unknown
+  try {
+    items = JSON.parse(saved)
+  } catch {
+    items = undefined
+  }
+
+  // Each entry is upgraded and validated like any other old data, so one that can't be read doesn't hold up the rest
+  const conversations: Conversation[] = []
+  const quarantined: QuarantinedConversation[] = []
+  for (const item of Array.isArray(items) ? items : [saved]) {
+    // Entries saved without an id get one, which is kept if the entry stays behind
+    const result = upgradeConversation(typeof item === "object" && item !== null ? { id: generateId(), ...item } : item)
+    if (result.ok) conversations.push(result.conversation)
+    else quarantined.push({ ...result.quarantined, legacy: true })
+  }
+
+  if (conversations.length > 0) {
+    await store.applyBatch({ put: conversations.map((conversation) => ({ conversation })), delete: [] })
+  }
+
+  writeLegacyEntries(quarantined.map((item) => item.data))
+  return quarantined
+}
+
+function writeLegacyEntries(entries: unknown[]) {
+  if (entries.length > 0) localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(entries))
+  else localStorage.removeItem(LEGACY_STORAGE_KEY)
+}
+
+// Remove a quarantined entry that migrateFromLocalStorage left behind
+export function deleteLegacyConversation({ data }: QuarantinedConversation) {
+  let entries: unknown
+  try {
+    entries = JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEY) ?? "[]")
+  } catch {
+    entries = []
+  }
+  const stored = JSON.stringify(data)
+  writeLegacyEntries(Array.isArray(entries) ? entries.filter((entry) => JSON.stringify(entry) !== stored) : [])
+}
+
+// Copy every conversation kept in this browser to the server. Resolves to the number uploaded.
+export async function uploadBrowserConversations() {
+  const browserStore = createIndexedDBStore()
+  await migrateFromLocalStorage(browserStore)
+  const { conversations } = await browserStore.list()
+  return uploadConversations(conversations)
+}
@@ -0,0 +1,104 @@
+import { diffConversation, type ConversationRecord } from "@/lib/storage/diff"
+import { readStoredConversations } from "@/lib/storage/migrations"
+import { StorageQuotaError, type ConversationStore } from "@/lib/storage/types"
+import type { MessageNode } from "@/lib/types"
+
+const DB_NAME = "chat"
+const DB_VERSION = 1
+
+// Conversations without their messages, keyed by id
+const CONVERSATIONS = "conversations"
+// One record per message node, keyed by [conversationId, id]
+const MESSAGES = "messages"
+
+type MessageRecord = MessageNode & { conversationId: string }
+
+function promisify<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Resolves once the transaction is committed. Quota errors surface here, as the reason the transaction aborted.
+function committed(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onabort = transaction.onerror = () => {
+      const error = transaction.error
+      reject(error?.name === "QuotaExceededError" ? new StorageQuotaError() : error)
+    }
+  })
+}
+
+function openDatabase() {
+  const request = indexedDB.open(DB_NAME, DB_VERSION)
+  request.onupgradeneeded = () => {
+    const db = request.result
+    db.createObjectStore(CONVERSATIONS, { keyPath: "id" })
+    db.createObjectStore(MESSAGES, { keyPath: ["conversationId", "id"] }).createIndex(
+      "conversationId",
+      "conversationId",
+    )
+  }
+  return promisify(request)
+}
+
+// Stores conversations and their messages as separate records, so that a new or streamed message
+// only rewrites that message and the small conversation record instead of the whole history
+export function createIndexedDBStore(): ConversationStore {
+  // Opened on first use, so creating the store is safe during server rendering
+  let database: Promise<IDBDatabase> | undefined
+  const getDatabase = () => (database ??= openDatabase())
+
+  const store: ConversationStore = {
+    async list() {
+      const db = await getDatabase()
+      const transaction = db.transaction([CONVERSATIONS, MESSAGES], "readonly")
+      const [records, messages] = await Promise.all([
+        promisify<ConversationRecord[]>(transaction.objectStore(CONVERSATIONS).getAll()),
+        promisify<MessageRecord[]>(transaction.objectStore(MESSAGES).getAll()),
+      ])
+
+      const nodesByConversation: Record<string, Record<string, MessageNode>> = {}
+      for (const { conversationId, ...node } of messages) {
+        nodesByConversation[conversationId] ??= {}
+        nodesByConversation[conversationId][node.id] = node
+      }
+
+      return readStoredConversations(
+        records.map((record) => ({ ...record, nodes: nodesByConversation[record.id] ?? {} })),
+        (conversation) => store.put(conversation),
+      )
+    },
+
+    put(conversation, previous) {
+      return store.applyBatch({ put: [{ conversation, previous }], delete: [] })
+    },
+
+    delete(id) {
+      return store.applyBatch({ put: [], delete: [id] })
+    },
+
+    async applyBatch(batch) {
+      const db = await getDatabase()
+      const transaction = db.transaction([CONVERSATIONS, MESSAGES], "readwrite")
+      const conversationStore = transaction.objectStore(CONVERSATIONS)
+      const messageStore = transaction.objectStore(MESSAGES)
+
+      for (const { conversation, previous } of batch.put) {
+        const { record, changedNodes, deletedNodeIds } = diffConversation(conversation, previous)
+        conversationStore.put(record)
+        for (const node of changedNodes) messageStore.put({ ...node, conversationId: conversation.id })
+        for (const id of deletedNodeIds) messageStore.delete([conversation.id, id])
+      }
+      for (const id of batch.delete) {
+        conversationStore.delete(id)
+        messageStore.delete(IDBKeyRange.bound([id], [id, []]))
+      }
+
+      await committed(transaction)
+    },
+  }
+  return store
+}
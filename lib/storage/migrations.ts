@@ -0,0 +1,154 @@
+import { z } from "zod"
+import { EMPTY_TREE, treeFromMessages } from "@/lib/message-tree"
+import { conversationSchema, messageSchema } from "@/lib/storage/schemas"
+import type { Conversation, Message } from "@/lib/types"
+import { generateId } from "@/lib/utils"
+
+// Version of the stored conversation format, saved with every conversation. Bump it and add a
+// step to `migrations` whenever Conversation or Message change in a way old data doesn't fit.
+export const SCHEMA_VERSION = 1
+
+type StoredRecord = Record<string, unknown>
+
+const isRecord = (value: unknown): value is StoredRecord => typeof value === "object" && value !== null
+
+const describeIssue = ({ issues: [issue] }: z.ZodError) => `${issue.path.join(".") || "top level"}: ${issue.message}`
+
+// Conversations kept a flat `messages` array before branching turned them into a message tree
+const version0Schema = z.object({ messages: z.array(messageSchema) }).passthrough()
+
+// migrations[n] upgrades a stored conversation from version n to n + 1. Each step checks the shape
+// it expects and throws if the data doesn't have it.
+const migrations: Record<number, (data: StoredRecord) => StoredRecord> = {
+  0: (data) => {
+    const parsed = version0Schema.safeParse(data)
+    if (!parsed.success) throw new Error(`Invalid data at ${describeIssue(parsed.error)}`)
+    const { messages, ...rest } = parsed.data
+    return { ...rest, ...treeFromMessages(messages) }
+  },
+}
+
+// The parts of a message that are enough to rebuild a conversation from
+const recoverableMessageSchema = z.object({ role: z.enum(["user", "assistant"]), content: z.string() })
+
+// A stored conversation that couldn't be read. It's left in storage untouched until the user recovers or deletes it.
+export interface QuarantinedConversation {
+  id: string
+  title: string
+  error: string
+  // The record exactly as it was stored
+  data: unknown
+  // Still in the localStorage list of versions before IndexedDB rather than in a ConversationStore
+  legacy?: boolean
+}
+
+export type UpgradeResult =
+  { ok: true; conversation: Conversation; upgraded: boolean } | { ok: false; quarantined: QuarantinedConversation }
+
+// Version of stored data. Data saved before versions were recorded is version 0 if it still has the flat `messages` array.
+export function getStoredVersion(data: StoredRecord) {
+  if (typeof data.schemaVersion === "number") return data.schemaVersion
+  return Array.isArray(data.messages) ? 0 : 1
+}
+
+// Links between nodes that point nowhere would break rendering and editing
+function findBrokenLink({ nodes, rootIds, currentNodeId }: Conversation) {
+  if (currentNodeId !== null && !nodes[currentNodeId]) return `current message ${currentNodeId} is missing`
+  for (const id of rootIds) if (!nodes[id]) return `first message ${id} is missing`
+  for (const node of Object.values(nodes)) {
+    if (node.parentId !== null && !nodes[node.parentId]) return `parent of message ${node.id} is missing`
+    for (const childId of node.childIds) if (!nodes[childId]) return `reply ${childId} to message ${node.id} is missing`
+  }
+}
+
+// Bring a stored conversation up to the current schema version step by step and validate it
+export function upgradeConversation(data: unknown): UpgradeResult {
+  const record = isRecord(data) ? data : {}
+  const quarantine = (error: string): UpgradeResult => ({
+    ok: false,
+    quarantined: {
+      id: typeof record.id === "string" ? record.id : "",
+      title: typeof record.title === "string" ? record.title : "Untitled",
+      error,
+      data,
+    },
+  })
+
+  const version = getStoredVersion(record)
+  if (version > SCHEMA_VERSION) return quarantine("Saved by a newer version of the app")
+
+  let upgraded = record
+  try {
+    for (let step = version; step < SCHEMA_VERSION; step++) upgraded = migrations[step](upgraded)
+  } catch (error) {
+    return quarantine(`Upgrading from version ${version} failed: ${error instanceof Error ? error.message : error}`)
+  }
+
+  const parsed = conversationSchema.safeParse(upgraded)
+  if (!parsed.success) {
+    return quarantine(`Invalid data at ${describeIssue(parsed.error)}`)
+  }
+
+  const { schemaVersion, ...conversation } = parsed.data as Conversation & { schemaVersion?: number }
+  const brokenLink = findBrokenLink(conversation)
+  if (brokenLink) return quarantine(`Broken message tree: ${brokenLink}`)
+
+  return { ok: true, conversation, upgraded: version < SCHEMA_VERSION }
+}
+
+export interface StoredConversations {
+  // Readable conversations, most recently updated first
+  conversations: Conversation[]
+  quarantined: QuarantinedConversation[]
+}
+
+// Upgrade everything a store has saved. Conversations that needed upgrading are passed to `save`
+// so the migration runs once; if saving fails they're simply upgraded again on the next load.
+export async function readStoredConversations(
+  records: unknown[],
+  save: (conversation: Conversation) => Promise<void>,
+): Promise<StoredConversations> {
+  const conversations: Conversation[] = []
+  const quarantined: QuarantinedConversation[] = []
+  const upgraded: Conversation[] = []
+
+  for (const record of records) {
+    const result = upgradeConversation(record)
+    if (!result.ok) {
+      quarantined.push(result.quarantined)
+      continue
+    }
+    conversations.push(result.conversation)
+    if (result.upgraded) upgraded.push(result.conversation)
+  }
+
+  await Promise.all(upgraded.map(save)).catch((error) => console.error("Failed to save upgraded conversations", error))
+
+  return { conversations: conversations.sort((a, b) => b.timestamp - a.timestamp), quarantined }
+}
+
+// Salvage what's readable from a quarantined conversation: every message with a role and text,
+// in their stored order, as a single branch. Returns null if there's nothing left to save.
+export function recoverConversation({ id, title, data }: QuarantinedConversation): Conversation | null {
+  const record = isRecord(data) ? data : {}
+  const candidates: unknown[] = Array.isArray(record.messages)
+    ? record.messages
+    : Object.values(isRecord(record.nodes) ? record.nodes : {}).map((node) =>
+        isRecord(node) ? node.message : undefined,
+      )
+
+  const messages: Message[] = candidates.flatMap((message) => {
+    const parsed = recoverableMessageSchema.safeParse(message)
+    return parsed.success ? [parsed.data] : []
+  })
+  if (messages.length === 0) return null
+
+  return {
+    ...EMPTY_TREE,
+    ...treeFromMessages(messages),
+    id: id || generateId(),
+    title: `${title} (recovered)`,
+    model: typeof record.model === "string" ? record.model : "",
+    timestamp: typeof record.timestamp === "number" ? record.timestamp : Date.now(),
+  }
+}
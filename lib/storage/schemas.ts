@@ -0,0 +1,60 @@
+import { z } from "zod"
+import { samplingParametersSchema } from "@/lib/presets"
+
+// Shapes of stored conversations, for data that arrives from outside the app's own state.
+// Unknown fields are kept so that data written by newer versions survives a round trip.
+
+export const messageSchema = z
+  .object({
+    role: z.enum(["user", "assistant"]),
+    content: z.string(),
+    stats: z
+      .object({
+        timeToFirstToken: z.number().optional(),
+        tokensPerSecond: z.number().optional(),
+        completionTokens: z.number().optional(),
+      })
+      .optional(),
+    stopped: z.boolean().optional(),
+    error: z.string().optional(),
+    model: z.string().optional(),
+    endpointId: z.string().optional(),
+  })
+  .passthrough()
+
+export const messageNodeSchema = z.object({
+  id: z.string().min(1),
+  parentId: z.string().nullable(),
+  childIds: z.array(z.string()),
+  message: messageSchema,
+})
+
+export const conversationRecordSchema = z
+  .object({
+    id: z.string().min(1),
+    title: z.string(),
+    rootIds: z.array(z.string()),
+    currentNodeId: z.string().nullable(),
+    model: z.string(),
+    endpointId: z.string().optional(),
+    systemPrompt: z.string().optional(),
+    parameters: samplingParametersSchema.optional(),
+    fallback: z.object({ endpointId: z.string(), model: z.string() }).optional(),
+    pinned: z.boolean().optional(),
+    folderId: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    archived: z.boolean().optional(),
+    timestamp: z.number(),
+  })
+  .passthrough()
+
+export const conversationSchema = conversationRecordSchema.extend({
+  nodes: z.record(messageNodeSchema),
+})
+
+// The output of diffConversation: the conversation record plus only the messages that changed
+export const conversationChangesSchema = z.object({
+  record: conversationRecordSchema.extend({ schemaVersion: z.number().int() }),
+  changedNodes: z.array(messageNodeSchema),
+  deletedNodeIds: z.array(z.string()),
+})
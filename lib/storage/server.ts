@@ -0,0 +1,59 @@
+import { diffConversation } from "@/lib/storage/diff"
+import { readStoredConversations } from "@/lib/storage/migrations"
+import type { ConversationStore } from "@/lib/storage/types"
+import type { Conversation } from "@/lib/types"
+
+const BASE_URL = "/api/conversations"
+
+async function request(url: string, init?: RequestInit) {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json" } : undefined,
+  })
+  if (!response.ok) {
+    const body = await response.json().catch(() => undefined)
+    throw new Error(body?.error ?? `Server responded with ${response.status} ${response.statusText}`)
+  }
+  return response
+}
+
+// Keeps conversations in the SQLite database behind this app's /api/conversations routes,
+// so they're shared by every browser that uses the same server
+export function createServerStore(): ConversationStore {
+  const store: ConversationStore = {
+    async list() {
+      const response = await request(BASE_URL)
+      return readStoredConversations(await response.json(), (conversation) => store.put(conversation))
+    },
+
+    async put(conversation, previous) {
+      await request(`${BASE_URL}/${encodeURIComponent(conversation.id)}`, {
+        method: "PUT",
+        body: JSON.stringify(diffConversation(conversation, previous)),
+      })
+    },
+
+    async delete(id) {
+      await request(`${BASE_URL}/${encodeURIComponent(id)}`, { method: "DELETE" })
+    },
+
+    async applyBatch(batch) {
+      await request(`${BASE_URL}/batch`, {
+        method: "POST",
+        body: JSON.stringify({
+          changes: batch.put.map(({ conversation, previous }) => diffConversation(conversation, previous)),
+          deletedIds: batch.delete,
+        }),
+      })
+    },
+  }
+  return store
+}
+
+// Upload whole conversations to the server; ones the server already has a newer copy of are skipped.
+// Resolves to the number of conversations written.
+export async function uploadConversations(conversations: Conversation[]): Promise<number> {
+  const response = await request(BASE_URL, { method: "POST", body: JSON.stringify({ conversations }) })
+  const { imported } = await response.json()
+  return imported
+}
@@ -0,0 +1,124 @@
+import Database from "better-sqlite3"
+import { mkdirSync } from "node:fs"
+import path from "node:path"
+import type { ConversationChanges, ConversationRecord } from "@/lib/storage/diff"
+import { SCHEMA_VERSION } from "@/lib/storage/migrations"
+import type { Conversation, MessageNode } from "@/lib/types"
+
+// Server-side conversation storage for the /api/conversations routes. Records are kept as JSON,
+// one row per conversation and one per message, like the browser's IndexedDB store.
+
+const DB_PATH = process.env.CONVERSATIONS_DB_PATH ?? path.join(process.cwd(), "data", "conversations.db")
+
+let database: Database.Database | undefined
+
+function getDatabase() {
+  if (database) return database
+
+  mkdirSync(path.dirname(DB_PATH), { recursive: true })
+  database = new Database(DB_PATH)
+  database.pragma("journal_mode = WAL")
+  database.pragma("foreign_keys = ON")
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS conversations (
+      id TEXT PRIMARY KEY,
+      timestamp INTEGER NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS messages (
+      conversation_id TEXT NOT NULL REFERENCES conversations (id) ON DELETE CASCADE,
+      id TEXT NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (conversation_id, id)
+    );
+  `)
+  return database
+}
+
+interface Row {
+  id: string
+  data: string
+}
+
+function withMessages(db: Database.Database, { id, data }: Row): Conversation {
+  const rows = db.prepare("SELECT data FROM messages WHERE conversation_id = ?").all(id) as Pick<Row, "data">[]
+  const nodes: Record<string, MessageNode> = {}
+  for (const row of rows) {
+    const node: MessageNode = JSON.parse(row.data)
+    nodes[node.id] = node
+  }
+  return { ...JSON.parse(data), nodes }
+}
+
+// All conversations, most recently updated first
+export function listConversations() {
+  const db = getDatabase()
+  const rows = db.prepare("SELECT id, data FROM conversations ORDER BY timestamp DESC").all() as Row[]
+  return rows.map((row) => withMessages(db, row))
+}
+
+export function getConversation(id: string) {
+  const db = getDatabase()
+  const row = db.prepare("SELECT id, data FROM conversations WHERE id = ?").get(id) as Row | undefined
+  return row && withMessages(db, row)
+}
+
+function writeRecord(db: Database.Database, record: ConversationRecord) {
+  db.prepare(
+    `INSERT INTO conversations (id, timestamp, data) VALUES (?, ?, ?)
+     ON CONFLICT (id) DO UPDATE SET timestamp = excluded.timestamp, data = excluded.data`,
+  ).run(record.id, record.timestamp, JSON.stringify(record))
+}
+
+function writeMessages(db: Database.Database, conversationId: string, nodes: MessageNode[]) {
+  const statement = db.prepare(
+    `INSERT INTO messages (conversation_id, id, data) VALUES (?, ?, ?)
+     ON CONFLICT (conversation_id, id) DO UPDATE SET data = excluded.data`,
+  )
+  for (const node of nodes) statement.run(conversationId, node.id, JSON.stringify(node))
+}
+
+// Apply the changes computed by diffConversation in one transaction
+export function saveConversationChanges({ record, changedNodes, deletedNodeIds }: ConversationChanges) {
+  const db = getDatabase()
+  db.transaction(() => {
+    writeRecord(db, record)
+    writeMessages(db, record.id, changedNodes)
+    const remove = db.prepare("DELETE FROM messages WHERE conversation_id = ? AND id = ?")
+    for (const id of deletedNodeIds) remove.run(record.id, id)
+  })()
+}
+
+// Store whole conversations, replacing older server copies. Conversations the server has a newer
+// version of are left alone. Returns how many were written.
+export function importConversations(conversations: Conversation[]) {
+  const db = getDatabase()
+  const getTimestamp = db.prepare("SELECT timestamp FROM conversations WHERE id = ?")
+
+  return db.transaction(() => {
+    let written = 0
+    for (const { nodes, ...record } of conversations) {
+      const existing = getTimestamp.get(record.id) as { timestamp: number } | undefined
+      if (existing && existing.timestamp >= record.timestamp) continue
+
+      writeRecord(db, { schemaVersion: SCHEMA_VERSION, ...record })
+      db.prepare("DELETE FROM messages WHERE conversation_id = ?").run(record.id)
+      writeMessages(db, record.id, Object.values(nodes))
+      written++
+    }
+    return written
+  })()
+}
+
+// Returns whether the conversation existed
+export function deleteConversation(id: string) {
+  return getDatabase().prepare("DELETE FROM conversations WHERE id = ?").run(id).changes > 0
+}
+
+// Save and delete several conversations in one transaction
+export function applyConversationBatch(changes: ConversationChanges[], deletedIds: string[]) {
+  getDatabase().transaction(() => {
+    for (const conversationChanges of changes) saveConversationChanges(conversationChanges)
+    for (const id of deletedIds) deleteConversation(id)
+  })()
+}
@@ -0,0 +1,28 @@
+import type { StoredConversations } from "@/lib/storage/migrations"
+import type { Conversation } from "@/lib/types"
+
+// Conversations to write and delete together
+export interface ConversationBatch {
+  // `previous` is the version saved last, if any, so that only what changed is written
+  put: { conversation: Conversation; previous?: Conversation }[]
+  delete: string[]
+}
+
+// Where conversations are persisted
+export interface ConversationStore {
+  // All saved conversations, upgraded to the current schema version. Ones that can't be read are quarantined.
+  list(): Promise<StoredConversations>
+  // Save `conversation`. `previous` is the version saved last, if any, so that only what changed is written.
+  put(conversation: Conversation, previous?: Conversation): Promise<void>
+  delete(id: string): Promise<void>
+  // Apply every write and delete in one transaction: either all of them are saved or none is
+  applyBatch(batch: ConversationBatch): Promise<void>
+}
+
+// Thrown when the browser refuses to store more data
+export class StorageQuotaError extends Error {
+  constructor(message = "Browser storage is full") {
+    super(message)
+    this.name = "StorageQuotaError"
+  }
+}
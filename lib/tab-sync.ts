@@ -0,0 +1,37 @@
+import type { Conversation, Folder, ServerSettings } from "@/lib/types"
+
+// Messages exchanged between open tabs of the app
+export type TabMessage =
+  // A conversation was created or changed, and is saved
+  | { type: "conversation-saved"; conversation: Conversation }
+  | { type: "conversation-deleted"; id: string }
+  | { type: "settings-changed"; settings: ServerSettings }
+  | { type: "folders-changed"; folders: Folder[] }
+  // A tab started or stopped generating a reply; other tabs leave that conversation alone meanwhile
+  | { type: "generation"; conversationId: string; active: boolean }
+
+export type TabChannel = ReturnType<typeof createTabChannel>
+
+const CHANNEL_NAME = "chat-sync"
+
+// Broadcasts changes to the app's other tabs. A tab doesn't receive its own messages.
+export function createTabChannel() {
+  // Missing in some older browsers; tabs simply don't sync there
+  const channel = typeof BroadcastChannel === "undefined" ? null : new BroadcastChannel(CHANNEL_NAME)
+
+  return {
+    post(message: TabMessage) {
+      channel?.postMessage(message)
+    },
+
+    subscribe(listener: (message: TabMessage) => void) {
+      const handleMessage = (event: MessageEvent<TabMessage>) => listener(event.data)
+      channel?.addEventListener("message", handleMessage)
+      return () => channel?.removeEventListener("message", handleMessage)
+    },
+
+    close() {
+      channel?.close()
+    },
+  }
+}
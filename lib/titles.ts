@@ -0,0 +1,59 @@
+import type { LLMProvider } from "@/lib/providers"
+import type { Message } from "@/lib/types"
+
+// Conversation titles written by a model from the first messages, with the start of the first
+// user message as the fallback when no model answers.
+
+const MAX_TITLE_LENGTH = 60
+// The model sees the first messages only, each cut to this many characters
+const TITLE_CONTEXT_MESSAGES = 4
+const EXCERPT_LENGTH = 1000
+
+const TITLE_INSTRUCTIONS =
+  "You write titles for chat conversations. Reply with a title of at most six words that says what " +
+  "the conversation is about, in the language of the conversation. Reply with the title only: no " +
+  "quotes, no explanation, no punctuation at the end."
+
+// The first user message cut to 30 characters
+export function truncateTitle(text: string) {
+  return text.length > 30 ? text.substring(0, 30) + "..." : text
+}
+
+// Reduce the model's answer to the title itself: small models like to add reasoning, a "Title:"
+// label, quotes or markdown around it
+export function cleanTitle(text: string) {
+  const answer = text.replace(/<think>[\s\S]*?(<\/think>|$)/g, "").trim()
+  const title = answer
+    .split("\n")[0]
+    .replace(/^title:\s*/i, "")
+    .replace(/^["'“”*#\s]+|["'“”*\s.]+$/g, "")
+    .trim()
+
+  return title.length > MAX_TITLE_LENGTH ? title.slice(0, MAX_TITLE_LENGTH).trimEnd() + "..." : title
+}
+
+// Ask `model` for a title for the conversation that starts with `messages`.
+// Throws if the request fails or the answer doesn't contain a usable title.
+export async function generateTitle(provider: LLMProvider, model: string, messages: Message[]) {
+  const transcript = messages
+    .slice(0, TITLE_CONTEXT_MESSAGES)
+    .map(({ role, content }) => {
+      const excerpt = content.length > EXCERPT_LENGTH ? content.slice(0, EXCERPT_LENGTH) + "..." : content
+      return `${role === "user" ? "User" : "Assistant"}: ${excerpt}`
+    })
+    .join("\n\n")
+
+  const result = await provider.chat({
+    model,
+    messages: [
+      { role: "system", content: TITLE_INSTRUCTIONS },
+      { role: "user", content: `Write a title for this conversation:\n\n${transcript}` },
+    ],
+    // Room for models that reason before answering; the reasoning is stripped
+    parameters: { temperature: 0.3, max_tokens: 256 },
+  })
+
+  const title = cleanTitle(result.content)
+  if (!title) throw new Error("The model didn't return a title")
+  return title
+}
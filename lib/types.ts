@@ -0,0 +1,150 @@
+import type { ProviderType } from "@/lib/providers/types"
+
+// Shared types for the chat application
+
+export interface MessageStats {
+  // Milliseconds from sending the request to the first streamed token
+  timeToFirstToken?: number
+  tokensPerSecond?: number
+  completionTokens?: number
+}
+
+export interface Message {
+  role: "user" | "assistant"
+  content: string
+  stats?: MessageStats
+  // Set when the user stopped generation before the reply was complete
+  stopped?: boolean
+  // The server's error message when the reply failed; `content` keeps whatever arrived before that
+  error?: string
+  // Model that actually wrote a reply, which differs from the conversation's when the fallback answered
+  model?: string
+  endpointId?: string
+}
+
+// A message in the shape the chat completions API expects
+export interface ChatMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+}
+
+// Sampling settings sent with each completion. Anything left undefined uses the server's default.
+export interface SamplingParameters {
+  temperature?: number
+  top_p?: number
+  top_k?: number
+  max_tokens?: number
+  stop?: string[]
+  seed?: number
+  frequency_penalty?: number
+  presence_penalty?: number
+}
+
+// One message in a conversation's branching tree
+export interface MessageNode {
+  id: string
+  parentId: string | null
+  // Alternative continuations, oldest first
+  childIds: string[]
+  message: Message
+}
+
+export interface Conversation {
+  id: string
+  title: string
+  nodes: Record<string, MessageNode>
+  // First messages of the conversation; more than one when the opening message was edited
+  rootIds: string[]
+  // Last message of the visible branch, or null for an empty conversation
+  currentNodeId: string | null
+  model: string
+  // Endpoint that serves `model`; missing on conversations from before multiple endpoints existed
+  endpointId?: string
+  // Instructions sent as the first "system" message; missing on conversations from older versions
+  systemPrompt?: string
+  parameters?: SamplingParameters
+  // Used when `model` keeps failing
+  fallback?: ModelRef
+  // Listed above the other conversations
+  pinned?: boolean
+  // Folder the conversation was moved into; ids of deleted folders are ignored
+  folderId?: string
+  tags?: string[]
+  // Hidden from the main list until restored from the "Archived" view
+  archived?: boolean
+  timestamp: number
+}
+
+// A user-created group of conversations in the sidebar
+export interface Folder {
+  id: string
+  name: string
+}
+
+// A model on a particular endpoint
+export interface ModelRef {
+  endpointId: string
+  model: string
+}
+
+// A saved LLM server
+export interface Endpoint {
+  id: string
+  name: string
+  // Which API the server speaks
+  provider: ProviderType
+  scheme: "http" | "https"
+  host: string
+  port: string
+  // Prefix for all API paths, e.g. "/llm" when the server sits behind a reverse proxy
+  basePath: string
+  // Sent as a Bearer token when set
+  apiKey?: string
+  // "direct" calls the server from the browser, "proxy" goes through this app's /api routes
+  mode: "direct" | "proxy"
+}
+
+export interface ServerSettings {
+  // Never empty; the first endpoint is used by conversations that don't name one
+  endpoints: Endpoint[]
+  // Fallback context length used when the server doesn't report one for the model
+  contextLength: number
+  // Stream replies token by token instead of waiting for the full completion
+  stream: boolean
+  // How failed requests are retried before giving up or switching to the fallback model
+  retry: RetryPolicy
+  // Where conversations are saved
+  storage: StorageLocation
+  // Model that writes conversation titles; unset, the conversation's own model does
+  titleModel?: ModelRef
+}
+
+// "browser" keeps conversations in this browser's IndexedDB, "server" in the app server's SQLite database
+export type StorageLocation = "browser" | "server"
+
+export interface RetryPolicy {
+  // Attempts after the first one; 0 disables retrying
+  maxRetries: number
+  // Delay before the first retry, doubled for every further one
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+export const DEFAULT_ENDPOINT: Endpoint = {
+  id: "default",
+  name: "Local server",
+  provider: "openai",
+  scheme: "http",
+  host: "localhost",
+  port: "1234",
+  basePath: "",
+  mode: "direct",
+}
+
+export const DEFAULT_SERVER_SETTINGS: ServerSettings = {
+  endpoints: [DEFAULT_ENDPOINT],
+  contextLength: 4096,
+  stream: true,
+  retry: { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 30_000 },
+  storage: "browser",
+}
@@ -4,3 +4,8 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Short random id for conversations, presets and other client-side records
+export function generateId() {
+  return Math.random().toString(36).substring(2, 15)
+}